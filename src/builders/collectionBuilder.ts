@@ -1,8 +1,26 @@
-import { BrunoRequest } from '../types/bruno.types.js';
-import { PostmanCollection, PostmanItem, PostmanEvent } from '../types/postman.types.js';
-import { convertBrunoToPostmanRequest } from '../converters/requestConverter.js';
+import { BrunoRequest, BrunoAuth, BrunoFolder, BrunoHeader } from '../types/bruno.types.js';
+import {
+  PostmanCollection,
+  PostmanItem,
+  PostmanEvent,
+  PostmanAuth,
+} from '../types/postman.types.js';
+import {
+  convertBrunoToPostmanRequest,
+  convertAuth,
+  convertAuthScript,
+} from '../converters/requestConverter.js';
 import { convertPreRequestScript, convertTestScript } from '../converters/scriptConverter.js';
 import { convertPreRequestScriptAST, convertTestScriptAST } from '../converters/astScriptConverter.js';
+import { convertAssertions } from '../converters/assertionConverter.js';
+import { convertPreRequestVars, convertPostResponseVars } from '../converters/variableConverter.js';
+import { convertSettings, convertSettingsWarnings } from '../converters/settingsConverter.js';
+import { convertExamples } from '../converters/exampleConverter.js';
+import {
+  VariableScopeMapping,
+  DEFAULT_VARIABLE_SCOPES,
+} from '../converters/variableScopeConverter.js';
+import { normalizeRequestPath } from '../converters/runRequestConverter.js';
 import { FileTreeNode } from '../types/brunoCollection.types.js';
 
 /**
@@ -13,18 +31,42 @@ export interface CollectionItem {
   request: BrunoRequest;
 }
 
+/**
+ * Conversion settings shared by every item of a collection
+ */
+interface ScriptOptions {
+  /** Use AST-based script conversion */
+  useAST: boolean;
+  /** Postman scope of each Bruno variable scope */
+  variableScopes: VariableScopeMapping;
+  /** Requests of the collection by normalized path, for bru.runRequest() */
+  requests: Map<string, BrunoRequest>;
+  /** Collects conversion warnings for the report */
+  warnings: string[];
+}
+
 /**
  * Build a Postman collection from Bruno requests
  * @param name - The name of the collection
  * @param items - Array of collection items OR FileTreeNode for hierarchical conversion
  * @param useAST - Use AST-based script conversion (experimental)
+ * @param variableScopes - Postman scope of each Bruno variable scope in scripts
+ * @param warnings - Array to collect conversion warnings
  * @returns Complete Postman collection
  */
 export function buildPostmanCollection(
   name: string,
   items: CollectionItem[] | FileTreeNode,
-  useAST: boolean = false
+  useAST: boolean = false,
+  variableScopes: VariableScopeMapping = DEFAULT_VARIABLE_SCOPES,
+  warnings: string[] = []
 ): PostmanCollection {
+  const scriptOptions: ScriptOptions = {
+    useAST,
+    variableScopes,
+    requests: indexRequests(items),
+    warnings,
+  };
   const collection: PostmanCollection = {
     info: {
       name,
@@ -37,38 +79,176 @@ export function buildPostmanCollection(
   if (Array.isArray(items)) {
     // Legacy flat array conversion
     for (const { name: itemName, request: brunoRequest } of items) {
-      const postmanItem = buildPostmanItem(itemName, brunoRequest, useAST);
+      const postmanItem = buildPostmanItem(itemName, brunoRequest, scriptOptions);
       collection.item.push(postmanItem);
     }
   } else {
-    // Hierarchical FileTreeNode conversion
-    collection.item = buildPostmanItems(items, useAST);
+    // Hierarchical FileTreeNode conversion, with collection.bru settings on the root
+    const { auth, inheritsAuth } = resolveContainerAuth(items.brunoFolder?.auth, false);
+    if (auth) {
+      collection.auth = auth;
+    }
+
+    if (items.brunoFolder) {
+      const { description, event, variable } = buildFolderSettings(
+        items.brunoFolder,
+        scriptOptions,
+        `collection "${name}"`
+      );
+      if (description) {
+        collection.info.description = description;
+      }
+      if (event) {
+        collection.event = event;
+      }
+      if (variable) {
+        collection.variable = variable;
+      }
+    }
+
+    collection.item = buildPostmanItems(
+      items,
+      scriptOptions,
+      inheritsAuth,
+      mergeSharedHeaders(items.brunoFolder?.headers ?? [], [])
+    );
   }
 
   return collection;
 }
 
+/**
+ * Index the requests of a collection by path, as referenced by bru.runRequest()
+ * Requests of the file tree get the auth and shared headers of their folders and
+ * the collection, as they are inlined without their parent item groups.
+ * @param items - Flat collection items (indexed by name) or the collection file tree
+ * @returns Requests by normalized path relative to the collection root
+ */
+function indexRequests(items: CollectionItem[] | FileTreeNode): Map<string, BrunoRequest> {
+  const requests = new Map<string, BrunoRequest>();
+
+  if (Array.isArray(items)) {
+    for (const { name, request } of items) {
+      requests.set(normalizeRequestPath(name), request);
+    }
+    return requests;
+  }
+
+  const visit = (
+    node: FileTreeNode,
+    parentPath: string,
+    containerAuth: BrunoAuth | undefined,
+    sharedHeaders: BrunoHeader[]
+  ): void => {
+    for (const child of node.children) {
+      const childPath = parentPath ? `${parentPath}/${child.name}` : child.name;
+      if (child.brunoRequest) {
+        requests.set(normalizeRequestPath(childPath), {
+          ...child.brunoRequest,
+          auth: resolveInheritedAuth(child.brunoRequest.auth, containerAuth),
+          headers: mergeSharedHeaders(child.brunoRequest.headers, sharedHeaders),
+        });
+      }
+      visit(
+        child,
+        childPath,
+        resolveInheritedAuth(child.brunoFolder?.auth, containerAuth),
+        mergeSharedHeaders(child.brunoFolder?.headers ?? [], sharedHeaders)
+      );
+    }
+  };
+  visit(
+    items,
+    '',
+    resolveInheritedAuth(items.brunoFolder?.auth, undefined),
+    mergeSharedHeaders(items.brunoFolder?.headers ?? [], [])
+  );
+
+  return requests;
+}
+
+/**
+ * Resolve Bruno auth inheritance: a request or folder without auth, or with
+ * `auth: inherit`, uses the auth of its closest folder or the collection
+ * @param auth - Auth of the request or folder
+ * @param containerAuth - Resolved auth of the parent folder or collection
+ * @returns The auth that applies
+ */
+function resolveInheritedAuth(
+  auth: BrunoAuth | undefined,
+  containerAuth: BrunoAuth | undefined
+): BrunoAuth | undefined {
+  return !auth || auth.type === 'inherit' ? containerAuth : auth;
+}
+
+/**
+ * Resolve collection or folder auth against Postman's inheritance model
+ * @param brunoAuth - Auth declared in collection.bru / folder.bru
+ * @param inheritsAuth - Whether an ancestor already provides auth
+ * @returns Auth to set on the container (if any) and whether its children inherit auth
+ */
+function resolveContainerAuth(
+  brunoAuth: BrunoAuth | undefined,
+  inheritsAuth: boolean
+): { auth?: PostmanAuth; inheritsAuth: boolean } {
+  if (!brunoAuth || brunoAuth.type === 'inherit') {
+    return { inheritsAuth };
+  }
+
+  if (brunoAuth.type === 'none') {
+    // Only needed to stop an ancestor's auth from being inherited
+    return { auth: inheritsAuth ? { type: 'noauth' } : undefined, inheritsAuth: false };
+  }
+
+  return { auth: convertAuth(brunoAuth), inheritsAuth: true };
+}
+
 /**
  * Recursively build Postman items from FileTreeNode
  * @param node - FileTreeNode (can be file or directory)
- * @param useAST - Use AST-based script conversion
+ * @param scriptOptions - Script conversion settings
+ * @param inheritsAuth - Whether a parent folder or the collection provides auth
+ * @param sharedHeaders - Headers of the parent folders and the collection
  * @returns Array of PostmanItem (can include item groups for folders)
  */
-function buildPostmanItems(node: FileTreeNode, useAST: boolean): PostmanItem[] {
+function buildPostmanItems(
+  node: FileTreeNode,
+  scriptOptions: ScriptOptions,
+  inheritsAuth: boolean = false,
+  sharedHeaders: BrunoHeader[] = []
+): PostmanItem[] {
   if (node.type === 'directory') {
     // For directory nodes, return all children
     const items: PostmanItem[] = [];
     for (const child of node.children) {
       if (child.type === 'file' && child.brunoRequest) {
         // File: convert to request item
-        const postmanItem = buildPostmanItem(child.name.replace('.bru', ''), child.brunoRequest, useAST);
+        const postmanItem = buildPostmanItem(
+          child.name.replace('.bru', ''),
+          child.brunoRequest,
+          scriptOptions,
+          inheritsAuth,
+          sharedHeaders
+        );
         items.push(postmanItem);
       } else if (child.type === 'directory') {
-        // Directory: convert to item-group (folder)
+        // Directory: convert to item-group (folder), with folder.bru auth if any
+        const folderAuth = resolveContainerAuth(child.brunoFolder?.auth, inheritsAuth);
         const folderItem: PostmanItem = {
           name: child.name,
-          item: buildPostmanItems(child, useAST),
+          ...(child.brunoFolder
+            ? buildFolderSettings(child.brunoFolder, scriptOptions, `folder "${child.name}"`)
+            : {}),
+          item: buildPostmanItems(
+            child,
+            scriptOptions,
+            folderAuth.inheritsAuth,
+            mergeSharedHeaders(child.brunoFolder?.headers ?? [], sharedHeaders)
+          ),
         };
+        if (folderAuth.auth) {
+          folderItem.auth = folderAuth.auth;
+        }
         items.push(folderItem);
       }
     }
@@ -76,102 +256,287 @@ function buildPostmanItems(node: FileTreeNode, useAST: boolean): PostmanItem[] {
   } else {
     // Single file node
     if (node.brunoRequest) {
-      return [buildPostmanItem(node.name.replace('.bru', ''), node.brunoRequest, useAST)];
+      return [
+        buildPostmanItem(
+          node.name.replace('.bru', ''),
+          node.brunoRequest,
+          scriptOptions,
+          inheritsAuth,
+          sharedHeaders
+        ),
+      ];
     }
     return [];
   }
 }
 
+/**
+ * Convert collection.bru / folder.bru settings to Postman container fields
+ * Postman has no shared headers, so they are added to each request instead, see
+ * mergeSharedHeaders.
+ * @param folder - Parsed collection or folder settings
+ * @param scriptOptions - Script conversion settings
+ * @param source - Collection or folder the settings belong to, for warnings
+ * @returns Description, events and variables (only the fields that have content)
+ */
+function buildFolderSettings(
+  folder: BrunoFolder,
+  scriptOptions: ScriptOptions,
+  source: string
+): Pick<PostmanItem, 'description' | 'event' | 'variable'> {
+  const settings: Pick<PostmanItem, 'description' | 'event' | 'variable'> = {};
+
+  if (folder.docs) {
+    settings.description = folder.docs;
+  }
+
+  if (folder.preRequestVars && folder.preRequestVars.length > 0) {
+    settings.variable = folder.preRequestVars.map((variable) => ({
+      key: variable.key,
+      value: variable.value,
+      ...(variable.enabled ? {} : { disabled: true }),
+    }));
+  }
+
+  const preRequestScript = folder.preRequestScript
+    ? convertPreRequestScriptLines(folder.preRequestScript, scriptOptions, source)
+    : [];
+  if (folder.auth) {
+    const authWarnings: string[] = [];
+    preRequestScript.push(...convertAuthScript(folder.auth, authWarnings));
+    addWarnings(scriptOptions, authWarnings, source);
+  }
+  if (preRequestScript.length > 0) {
+    addEvent(settings, 'prerequest', preRequestScript);
+  }
+
+  const testScript = convertPostResponseVars(
+    folder.postResponseVars ?? [],
+    scriptOptions.variableScopes
+  );
+  if (folder.postResponseScript) {
+    testScript.push(...convertTestScriptLines(folder.postResponseScript, scriptOptions, source));
+  }
+  if (folder.testScript) {
+    testScript.push(...convertTestScriptLines(folder.testScript, scriptOptions, source));
+  }
+  if (testScript.length > 0) {
+    addEvent(settings, 'test', testScript);
+  }
+
+  return settings;
+}
+
+/**
+ * Add shared headers to a header list, without overriding the headers it already has
+ * Bruno gives request headers priority, then folder headers, then collection headers.
+ * @param headers - Request or folder headers
+ * @param sharedHeaders - Headers of the parent folders and the collection
+ * @returns The headers followed by the enabled shared headers they do not set
+ */
+function mergeSharedHeaders(headers: BrunoHeader[], sharedHeaders: BrunoHeader[]): BrunoHeader[] {
+  const keys = new Set(
+    headers.filter((header) => header.enabled).map((header) => header.key.toLowerCase())
+  );
+  return [
+    ...headers,
+    ...sharedHeaders.filter((header) => header.enabled && !keys.has(header.key.toLowerCase())),
+  ];
+}
+
 /**
  * Build a single Postman item from a Bruno request
  * @param itemName - Name of the item
  * @param brunoRequest - Bruno request to convert
- * @param useAST - Use AST-based script conversion
+ * @param scriptOptions - Script conversion settings
+ * @param inheritsAuth - Whether a parent folder or the collection provides auth
+ * @param sharedHeaders - Headers of the parent folders and the collection
  * @returns PostmanItem
  */
 function buildPostmanItem(
   itemName: string,
   brunoRequest: BrunoRequest,
-  useAST: boolean
+  scriptOptions: ScriptOptions,
+  inheritsAuth: boolean = false,
+  sharedHeaders: BrunoHeader[] = []
 ): PostmanItem {
+  const request = convertBrunoToPostmanRequest(
+    { ...brunoRequest, headers: mergeSharedHeaders(brunoRequest.headers, sharedHeaders) },
+    scriptOptions.warnings
+  );
+
+  // Requests without auth inherit in Postman, so an explicit "none" must be kept
+  if (brunoRequest.auth?.type === 'none' && inheritsAuth) {
+    request.auth = { type: 'noauth' };
+  }
+
   const postmanItem: PostmanItem = {
     name: itemName,
-    request: convertBrunoToPostmanRequest(brunoRequest),
+    request,
   };
 
-  // Add pre-request script if present
-  if (brunoRequest.preRequestScript) {
-    let preRequestScript: string[];
-
-    if (useAST) {
-      // Try AST conversion first
-      const astResult = convertPreRequestScriptAST(brunoRequest.preRequestScript);
-
-      if (astResult.success) {
-        preRequestScript = astResult.script.split('\n');
-      } else {
-        // Fallback to regex converter
-        console.warn('AST conversion failed for pre-request script, falling back to regex converter');
-        const regexResult = convertPreRequestScript(brunoRequest.preRequestScript);
-        preRequestScript = regexResult.script;
-      }
-    } else {
-      // Use regex converter (default)
-      const regexResult = convertPreRequestScript(brunoRequest.preRequestScript);
-      preRequestScript = regexResult.script;
-    }
+  const protocolProfileBehavior = convertSettings(brunoRequest.settings ?? {});
+  if (Object.keys(protocolProfileBehavior).length > 0) {
+    postmanItem.protocolProfileBehavior = protocolProfileBehavior;
+  }
 
-    if (!postmanItem.event) {
-      postmanItem.event = [];
-    }
+  const source = `request "${brunoRequest.meta.name}"`;
+  addWarnings(scriptOptions, convertSettingsWarnings(brunoRequest.settings ?? {}), source);
 
-    const preRequestEvent: PostmanEvent = {
-      listen: 'prerequest',
-      script: {
-        type: 'text/javascript',
-        exec: preRequestScript,
-      },
-    };
+  // Pre-request: request vars are seeded before the pre-request script runs,
+  // auth helpers run last so they see variables set by the script
+  const preRequestScript = convertPreRequestVars(brunoRequest.preRequestVars ?? []);
+  if (brunoRequest.preRequestScript) {
+    preRequestScript.push(
+      ...convertPreRequestScriptLines(brunoRequest.preRequestScript, scriptOptions, source)
+    );
+  }
+  if (brunoRequest.auth) {
+    const authWarnings: string[] = [];
+    preRequestScript.push(...convertAuthScript(brunoRequest.auth, authWarnings));
+    addWarnings(scriptOptions, authWarnings, source);
+  }
 
-    postmanItem.event.push(preRequestEvent);
+  if (preRequestScript.length > 0) {
+    addEvent(postmanItem, 'prerequest', preRequestScript);
   }
 
-  // Add test script if present
+  // Test: response captures first, then the post-response script, the test script
+  // and assertions. Postman has a single test event, so Bruno's separate
+  // post-response and test scripts end up sharing one scope.
+  const testScript = convertPostResponseVars(
+    brunoRequest.postResponseVars ?? [],
+    scriptOptions.variableScopes
+  );
+  if (brunoRequest.postResponseScript && brunoRequest.testScript) {
+    addWarnings(
+      scriptOptions,
+      ['Post-response script and tests are merged into one Postman test script'],
+      source
+    );
+    testScript.push(
+      '// WARNING: post-response script and tests are merged into one script - review shared variables'
+    );
+  }
+  if (brunoRequest.postResponseScript) {
+    testScript.push(
+      ...convertTestScriptLines(brunoRequest.postResponseScript, scriptOptions, source)
+    );
+  }
   if (brunoRequest.testScript) {
-    let testScript: string[];
-
-    if (useAST) {
-      // Try AST conversion first
-      const astResult = convertTestScriptAST(brunoRequest.testScript);
-
-      if (astResult.success) {
-        testScript = astResult.script.split('\n');
-      } else {
-        // Fallback to regex converter
-        console.warn('AST conversion failed for test script, falling back to regex converter');
-        const regexResult = convertTestScript(brunoRequest.testScript);
-        testScript = regexResult.script;
-      }
-    } else {
-      // Use regex converter (default)
-      const regexResult = convertTestScript(brunoRequest.testScript);
-      testScript = regexResult.script;
+    testScript.push(...convertTestScriptLines(brunoRequest.testScript, scriptOptions, source));
+  }
+  testScript.push(...convertAssertions(brunoRequest.assertions ?? []));
+
+  if (testScript.length > 0) {
+    addEvent(postmanItem, 'test', testScript);
+  }
+
+  // Saved examples become Postman responses, used by mock servers and docs
+  const responses = convertExamples(brunoRequest);
+  if (responses.length > 0) {
+    postmanItem.response = responses;
+  }
+
+  return postmanItem;
+}
+
+/**
+ * Convert a Bruno pre-request script, using the AST converter when requested
+ * @param script - Bruno pre-request script
+ * @param scriptOptions - Script conversion settings
+ * @param source - Request, folder or collection the script belongs to, for warnings
+ * @returns Postman script lines
+ */
+function convertPreRequestScriptLines(
+  script: string,
+  scriptOptions: ScriptOptions,
+  source: string
+): string[] {
+  const { useAST, variableScopes, requests } = scriptOptions;
+  if (useAST) {
+    // Try AST conversion first
+    const astResult = convertPreRequestScriptAST(script, variableScopes, requests);
+
+    if (astResult.success) {
+      addWarnings(scriptOptions, astResult.warnings, source);
+      return astResult.script.split('\n');
     }
 
-    if (!postmanItem.event) {
-      postmanItem.event = [];
+    // Fallback to regex converter
+    console.warn('AST conversion failed for pre-request script, falling back to regex converter');
+  }
+
+  // Use regex converter (default)
+  const result = convertPreRequestScript(script, variableScopes);
+  addWarnings(scriptOptions, result.warnings, source);
+  return result.script;
+}
+
+/**
+ * Convert a Bruno test script, using the AST converter when requested
+ * @param script - Bruno test script
+ * @param scriptOptions - Script conversion settings
+ * @param source - Request, folder or collection the script belongs to, for warnings
+ * @returns Postman script lines
+ */
+function convertTestScriptLines(
+  script: string,
+  scriptOptions: ScriptOptions,
+  source: string
+): string[] {
+  const { useAST, variableScopes, requests } = scriptOptions;
+  if (useAST) {
+    // Try AST conversion first
+    const astResult = convertTestScriptAST(script, variableScopes, requests);
+
+    if (astResult.success) {
+      addWarnings(scriptOptions, astResult.warnings, source);
+      return astResult.script.split('\n');
     }
 
-    const testEvent: PostmanEvent = {
-      listen: 'test',
-      script: {
-        type: 'text/javascript',
-        exec: testScript,
-      },
-    };
+    // Fallback to regex converter
+    console.warn('AST conversion failed for test script, falling back to regex converter');
+  }
+
+  // Use regex converter (default)
+  const result = convertTestScript(script, variableScopes);
+  addWarnings(scriptOptions, result.warnings, source);
+  return result.script;
+}
+
+/**
+ * Add converter warnings to the report, naming the item they come from
+ * @param scriptOptions - Script conversion settings holding the report warnings
+ * @param warnings - Warnings of a converter
+ * @param source - Request, folder or collection being converted, e.g. `request "Login"`
+ */
+function addWarnings(scriptOptions: ScriptOptions, warnings: string[], source: string): void {
+  for (const warning of warnings) {
+    scriptOptions.warnings.push(`${warning} (${source})`);
+  }
+}
 
-    postmanItem.event.push(testEvent);
+/**
+ * Append a script event to a Postman item, folder or collection
+ * @param target - Object to add the event to
+ * @param listen - Event type
+ * @param exec - Script lines
+ */
+function addEvent(
+  target: { event?: PostmanEvent[] },
+  listen: PostmanEvent['listen'],
+  exec: string[]
+): void {
+  if (!target.event) {
+    target.event = [];
   }
 
-  return postmanItem;
+  target.event.push({
+    listen,
+    script: {
+      type: 'text/javascript',
+      exec,
+    },
+  });
 }
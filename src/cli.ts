@@ -29,6 +29,12 @@ program
   .option('--upload', 'Upload to Postman Cloud (overwrites existing collection)', false)
   .option('--postman-api-key <key>', 'Postman API Key (defaults to POSTMAN_API_KEY env var)')
   .option('--collection-id <id>', 'Postman Collection ID (required for upload)')
+  .option('--tags <tags>', 'Only convert requests with one of these comma-separated tags')
+  .option('--exclude-tags <tags>', 'Skip requests with any of these comma-separated tags')
+  .option(
+    '--var-scopes <mapping>',
+    'Postman scopes for Bruno variables, e.g. runtime=variables,env=environment,globals=globals'
+  )
   .option('--experimental-ast', 'Use AST parsing for robust script conversion (experimental)', false)
   .action(async (input: string, options: ConvertOptions) => {
     await convertCommand(input, options);
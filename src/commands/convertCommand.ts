@@ -2,17 +2,29 @@ import { readFile, writeFile, fileExists } from '../services/fileService.js';
 import { PostmanApiService } from '../services/postmanApiService.js';
 import { Logger } from '../services/logger.js';
 import { parseBrunoFile } from '../parsers/brunoParser.js';
+import { BrunoParseError } from '../parsers/brunoParseError.js';
+import { parseBrunoFolderFile, FOLDER_SETTINGS_FILES } from '../parsers/brunoFolderParser.js';
 import { validateBrunoRequest } from '../validators/brunoValidator.js';
 import { buildPostmanCollection } from '../builders/collectionBuilder.js';
 import { validatePostmanCollection } from '../validators/postmanValidator.js';
-import { getFileExtension, normalizePath } from '../utils/pathUtils.js';
+import { getFileExtension, normalizePath, rebasePath } from '../utils/pathUtils.js';
 import { scanDirectory } from '../services/directoryScanner.js';
 import { parseBrunoJson } from '../services/brunoJsonParser.js';
-import { buildFileTree } from '../utils/fileTreeBuilder.js';
+import { buildFileTree, sortFileTreeBySeq } from '../utils/fileTreeBuilder.js';
 import { FileTreeNode, BatchConversionReport, ConversionError } from '../types/brunoCollection.types.js';
 import { PostmanCollection } from '../types/postman.types.js';
+import { BrunoRequest } from '../types/bruno.types.js';
 import { parseBrunoEnvironmentFile } from '../parsers/brunoEnvironmentParser.js';
 import { convertBrunoEnvironmentToPostman } from '../converters/environmentConverter.js';
+import { buildCodeFrame } from '../utils/codeFrame.js';
+import { parseVariableScopeMapping } from '../converters/variableScopeConverter.js';
+import {
+  TagFilter,
+  parseTagList,
+  isTagFilterActive,
+  matchesTagFilter,
+  filterFileTreeByTags,
+} from '../utils/tagFilter.js';
 import { stat } from 'fs/promises';
 import path from 'path';
 
@@ -26,6 +38,9 @@ export interface ConvertOptions {
   upload?: boolean;
   postmanApiKey?: string;
   collectionId?: string;
+  tags?: string; // Comma-separated tags, only requests with one of them are converted
+  excludeTags?: string; // Comma-separated tags, requests with any of them are skipped
+  varScopes?: string; // Variable scope mapping, e.g. "runtime=variables,env=environment"
 }
 
 /**
@@ -100,7 +115,7 @@ async function convertSingleFile(
 
   // Parse Bruno file
   logger.verbose('Parsing Bruno file...');
-  const brunoRequest = parseBrunoFile(brunoContent);
+  const brunoRequest = parseBrunoFile(brunoContent, filePath);
   logger.verbose(`Parsed request: ${brunoRequest.method} ${brunoRequest.url}`);
 
   // Validate Bruno request
@@ -108,6 +123,35 @@ async function convertSingleFile(
   validateBrunoRequest(brunoRequest);
   logger.verbose('Bruno request is valid');
 
+  // Check the request against --tags / --exclude-tags
+  const tagFilter = getTagFilter(options);
+  if (isTagFilterActive(tagFilter) && !matchesTagFilter(brunoRequest.meta.tags ?? [], tagFilter)) {
+    logger.error(`Request "${brunoRequest.meta.name}" does not match the tag filter`);
+    process.exit(1);
+  }
+
+  // Determine output path
+  let outputPath: string;
+  if (options.output) {
+    outputPath = normalizePath(options.output);
+  } else {
+    const inputDir = path.dirname(filePath);
+    const inputBase = path.basename(filePath, '.bru');
+    outputPath = path.join(inputDir, `${inputBase}.postman_collection.json`);
+  }
+
+  // Point body:file paths at the files from the output location
+  const fileWarnings: string[] = [];
+  await resolveBodyFiles(
+    brunoRequest,
+    path.dirname(filePath),
+    path.dirname(outputPath),
+    fileWarnings
+  );
+  for (const warning of fileWarnings) {
+    logger.warn(warning);
+  }
+
   // Build Postman collection
   logger.verbose('Building Postman collection...');
   const collectionName = options.name || brunoRequest.meta.name || path.basename(filePath, '.bru');
@@ -117,6 +161,7 @@ async function convertSingleFile(
     logger.verbose('Using experimental AST-based script conversion');
   }
 
+  const conversionWarnings: string[] = [];
   const collection = buildPostmanCollection(
     collectionName,
     [
@@ -125,8 +170,13 @@ async function convertSingleFile(
         request: brunoRequest,
       },
     ],
-    useAST
+    useAST,
+    parseVariableScopeMapping(options.varScopes ?? ''),
+    conversionWarnings
   );
+  for (const warning of conversionWarnings) {
+    logger.warn(warning);
+  }
   logger.verbose(`Built collection: ${collection.info.name}`);
 
   // Validate Postman collection
@@ -137,16 +187,6 @@ async function convertSingleFile(
   // Upload to Postman Cloud if requested
   await handleUpload(validatedCollection, options, logger);
 
-  // Determine output path
-  let outputPath: string;
-  if (options.output) {
-    outputPath = normalizePath(options.output);
-  } else {
-    const inputDir = path.dirname(filePath);
-    const inputBase = path.basename(filePath, '.bru');
-    outputPath = path.join(inputDir, `${inputBase}.postman_collection.json`);
-  }
-
   logger.verbose(`Output file: ${outputPath}`);
 
   // Validate output file extension
@@ -186,12 +226,17 @@ async function convertDirectory(
 
   // Filter out environment files (usually in environments/ folder)
   // We don't want to try to convert them as requests
-  const requestFiles = files.filter(f => !f.includes('/environments/') && !f.includes('\\environments\\'));
+  const collectionFiles = files.filter(f => !f.includes('/environments/') && !f.includes('\\environments\\'));
   
-  if (files.length > requestFiles.length) {
-    logger.verbose(`Excluded ${files.length - requestFiles.length} environment files from request conversion`);
+  if (files.length > collectionFiles.length) {
+    logger.verbose(`Excluded ${files.length - collectionFiles.length} environment files from request conversion`);
   }
 
+  // collection.bru and folder.bru hold shared settings, not requests
+  const requestFiles = collectionFiles.filter(
+    (f) => !FOLDER_SETTINGS_FILES.includes(path.basename(f))
+  );
+
   // AC7: Handle empty directory
   if (requestFiles.length === 0) {
     logger.error(`No .bru request files found in ${directoryPath}`);
@@ -210,23 +255,73 @@ async function convertDirectory(
 
   // Build file tree (AC2, AC3)
   logger.verbose('Building file tree...');
-  const fileTree = buildFileTree(requestFiles, directoryPath);
+  const fileTree = buildFileTree(collectionFiles, directoryPath);
   logger.verbose(`Built file tree with ${fileTree.children.length} top-level items`);
 
   // Convert files and collect errors (AC8)
   const errors: ConversionError[] = [];
+  // collection.bru / folder.bru errors are reported, but are not failed requests
+  const settingsErrors: ConversionError[] = [];
   let successCount = 0;
   const useAST = options.experimentalAst || false;
 
   logger.verbose('Converting files...');
-  await processFileTree(fileTree, errors, logger, useAST);
+  await processFileTree(fileTree, errors, settingsErrors, logger, useAST);
+
+  // Order requests and folders as in Bruno (by seq) now that they are parsed
+  sortFileTreeBySeq(fileTree);
 
   // Count successes
   successCount = requestFiles.length - errors.length;
 
+  // Keep only the requests selected by --tags / --exclude-tags
+  let skippedCount = 0;
+  const tagFilter = getTagFilter(options);
+  if (isTagFilterActive(tagFilter)) {
+    const keptCount = filterFileTreeByTags(fileTree, tagFilter);
+    logger.verbose(`Tag filter kept ${keptCount} requests`);
+
+    if (keptCount === 0) {
+      logger.error('No requests match the tag filter');
+      process.exit(1);
+    }
+
+    // Filtered requests were parsed successfully, but are not part of the conversion
+    skippedCount = successCount - keptCount;
+    successCount = keptCount;
+  }
+  const totalFiles = requestFiles.length - skippedCount;
+
+  // Determine output path
+  let outputPath: string;
+  if (options.output) {
+    outputPath = normalizePath(options.output);
+  } else {
+    outputPath = path.join(directoryPath, `${collectionName}.postman_collection.json`);
+  }
+
+  // Point body:file paths (relative to the collection root) at the files from the output location
+  const fileWarnings: string[] = [];
+  await resolveTreeBodyFiles(fileTree, directoryPath, path.dirname(outputPath), fileWarnings);
+  for (const warning of fileWarnings) {
+    logger.warn(warning);
+  }
+  warnings.push(...fileWarnings);
+
   // Build Postman collection
   logger.verbose('Building Postman collection from file tree...');
-  const collection = buildPostmanCollection(collectionName, fileTree, useAST);
+  const conversionWarnings: string[] = [];
+  const collection = buildPostmanCollection(
+    collectionName,
+    fileTree,
+    useAST,
+    parseVariableScopeMapping(options.varScopes ?? ''),
+    conversionWarnings
+  );
+  for (const warning of conversionWarnings) {
+    logger.warn(warning);
+  }
+  warnings.push(...conversionWarnings);
   logger.verbose(`Built collection: ${collection.info.name}`);
 
   // Validate Postman collection
@@ -237,14 +332,6 @@ async function convertDirectory(
   // Upload to Postman Cloud if requested
   await handleUpload(validatedCollection, options, logger);
 
-  // Determine output path
-  let outputPath: string;
-  if (options.output) {
-    outputPath = normalizePath(options.output);
-  } else {
-    outputPath = path.join(directoryPath, `${collectionName}.postman_collection.json`);
-  }
-
   logger.verbose(`Output file: ${outputPath}`);
 
   // Validate output file extension
@@ -307,14 +394,15 @@ async function convertDirectory(
   // Generate report (AC8)
   const duration = Date.now() - startTime;
   const report: BatchConversionReport = {
-    totalFiles: requestFiles.length,
+    totalFiles,
     successCount,
     failureCount: errors.length,
+    skippedCount,
     duration,
-    errors,
+    errors: [...errors, ...settingsErrors],
     warnings,
     outputPath,
-    successRate: requestFiles.length > 0 ? (successCount / requestFiles.length) * 100 : 0,
+    successRate: totalFiles > 0 ? (successCount / totalFiles) * 100 : 0,
   };
 
   // Display report
@@ -325,7 +413,7 @@ async function convertDirectory(
   }
 
   // Exit with appropriate code
-  if (errors.length > 0) {
+  if (report.errors.length > 0) {
     process.exit(1);
   }
 }
@@ -333,22 +421,25 @@ async function convertDirectory(
 /**
  * Recursively process file tree and parse Bruno files
  * @param node - Current file tree node
- * @param errors - Array to collect errors
+ * @param errors - Array to collect request errors
+ * @param settingsErrors - Array to collect collection.bru / folder.bru errors
  * @param logger - Logger instance
  * @param useAST - Use AST-based script conversion
  */
 async function processFileTree(
   node: FileTreeNode,
   errors: ConversionError[],
+  settingsErrors: ConversionError[],
   logger: Logger,
   useAST: boolean
 ): Promise<void> {
   if (node.type === 'file') {
     // Parse the .bru file
+    let content: string | undefined;
     try {
       logger.verbose(`Processing: ${node.path}`);
-      const content = await readFile(node.path);
-      const brunoRequest = parseBrunoFile(content);
+      content = await readFile(node.path);
+      const brunoRequest = parseBrunoFile(content, node.path);
       validateBrunoRequest(brunoRequest);
       node.brunoRequest = brunoRequest;
     } catch (error) {
@@ -360,6 +451,7 @@ async function processFileTree(
         phase: 'parse',
         isRecoverable: true,
         suggestion: 'Check the .bru file syntax and ensure all required sections are present',
+        ...getErrorLocation(error, content),
       };
       errors.push(conversionError);
       logger.verbose(`Failed to process: ${node.path}`);
@@ -367,11 +459,122 @@ async function processFileTree(
   } else {
     // Recursively process children
     for (const child of node.children) {
-      await processFileTree(child, errors, logger, useAST);
+      if (child.type === 'file' && FOLDER_SETTINGS_FILES.includes(child.name)) {
+        await processFolderSettings(node, child, settingsErrors, logger);
+      } else {
+        await processFileTree(child, errors, settingsErrors, logger, useAST);
+      }
+    }
+  }
+}
+
+/**
+ * Build the tag filter from the --tags and --exclude-tags options
+ */
+function getTagFilter(options: ConvertOptions): TagFilter {
+  return {
+    include: parseTagList(options.tags),
+    exclude: parseTagList(options.excludeTags),
+  };
+}
+
+/**
+ * Rewrite the body:file paths of every parsed request in a file tree
+ * @param node - Current file tree node
+ * @param sourceDir - Directory the Bruno paths are relative to (collection root)
+ * @param outputDir - Directory of the generated collection
+ * @param warnings - Array to collect warnings about missing files
+ */
+async function resolveTreeBodyFiles(
+  node: FileTreeNode,
+  sourceDir: string,
+  outputDir: string,
+  warnings: string[]
+): Promise<void> {
+  if (node.brunoRequest) {
+    await resolveBodyFiles(node.brunoRequest, sourceDir, outputDir, warnings);
+  }
+  for (const child of node.children) {
+    await resolveTreeBodyFiles(child, sourceDir, outputDir, warnings);
+  }
+}
+
+/**
+ * Rewrite body:file paths relative to the output location, as Postman resolves
+ * file bodies from there, and report files that do not exist
+ * @param brunoRequest - Parsed Bruno request
+ * @param sourceDir - Directory the Bruno paths are relative to
+ * @param outputDir - Directory of the generated collection
+ * @param warnings - Array to collect warnings about missing files
+ */
+async function resolveBodyFiles(
+  brunoRequest: BrunoRequest,
+  sourceDir: string,
+  outputDir: string,
+  warnings: string[]
+): Promise<void> {
+  for (const file of brunoRequest.body?.files ?? []) {
+    const absolutePath = path.resolve(sourceDir, file.filePath);
+    if (!(await fileExists(absolutePath))) {
+      warnings.push(`Body file not found: ${file.filePath} (request "${brunoRequest.meta.name}")`);
     }
+    file.filePath = rebasePath(file.filePath, sourceDir, outputDir);
   }
 }
 
+/**
+ * Parse a collection.bru / folder.bru file onto its directory node
+ * @param directory - Directory node the settings belong to
+ * @param settingsFile - The collection.bru / folder.bru file node
+ * @param errors - Array to collect errors
+ * @param logger - Logger instance
+ */
+async function processFolderSettings(
+  directory: FileTreeNode,
+  settingsFile: FileTreeNode,
+  errors: ConversionError[],
+  logger: Logger
+): Promise<void> {
+  let content: string | undefined;
+  try {
+    logger.verbose(`Processing folder settings: ${settingsFile.path}`);
+    content = await readFile(settingsFile.path);
+    directory.brunoFolder = parseBrunoFolderFile(content, settingsFile.path);
+  } catch (error) {
+    errors.push({
+      filePath: settingsFile.path,
+      message: error instanceof Error ? error.message : 'Unknown error',
+      type: 'parse',
+      phase: 'parse',
+      isRecoverable: true,
+      suggestion: 'Check the collection.bru / folder.bru syntax',
+      ...getErrorLocation(error, content),
+    });
+    logger.verbose(`Failed to process: ${settingsFile.path}`);
+  }
+}
+
+/**
+ * Extract the source location of a parse error
+ * @param error - Error thrown while processing a file
+ * @param content - Content of the file, if it was read
+ * @returns Line, column and code frame for a BrunoParseError, nothing otherwise
+ */
+function getErrorLocation(
+  error: unknown,
+  content: string | undefined
+): Pick<ConversionError, 'line' | 'column' | 'codeFrame'> {
+  if (!(error instanceof BrunoParseError)) {
+    return {};
+  }
+
+  return {
+    line: error.line,
+    column: error.column,
+    codeFrame: content ? buildCodeFrame(content, error.line, error.column) : undefined,
+  };
+}
+
 /**
  * Display batch conversion report in text format
  * @param report - Batch conversion report
@@ -384,13 +587,20 @@ function displayTextReport(report: BatchConversionReport, logger: Logger): void
   console.log(`  Total files: ${report.totalFiles}`);
   console.log(`  Successful: ${report.successCount} (${report.successRate.toFixed(1)}%)`);
   console.log(`  Failed: ${report.failureCount} (${(100 - report.successRate).toFixed(1)}%)`);
+  if (report.skippedCount > 0) {
+    console.log(`  Skipped by tag filter: ${report.skippedCount}`);
+  }
   console.log(`  Duration: ${(report.duration / 1000).toFixed(2)}s`);
 
   if (report.errors.length > 0) {
     console.log('\nErrors:');
     report.errors.forEach((error, index) => {
-      console.log(`  ${index + 1}. ${error.filePath}`);
+      const location = error.line ? `:${error.line}:${error.column ?? 1}` : '';
+      console.log(`  ${index + 1}. ${error.filePath}${location}`);
       console.log(`     ${error.message}`);
+      for (const frameLine of error.codeFrame ?? []) {
+        console.log(`     ${frameLine}`);
+      }
       if (error.suggestion) {
         console.log(`     Suggestion: ${error.suggestion}`);
       }
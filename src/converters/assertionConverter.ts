@@ -0,0 +1,184 @@
+/**
+ * Converts Bruno declarative assertions to Postman test code
+ *
+ * Bruno's `assert` block lists checks as `target: operator value`
+ * (e.g. `res.status: eq 200`). Each enabled assertion becomes a
+ * `pm.test(...)` block using the equivalent Chai assertion.
+ *
+ * Target mappings:
+ * - res.status → pm.response.code
+ * - res.responseTime → pm.response.responseTime
+ * - res.headers.name → pm.response.headers.get("name")
+ * - res.body → pm.response.json()
+ * - res('path') and res.getStatus() / getHeader() / ... → as in test scripts
+ */
+
+import { BrunoAssertion } from '../types/bruno.types.js';
+import { convertResponseCalls } from './scriptConverter.js';
+
+/**
+ * Convert Bruno assertions to Postman test script lines
+ * @param assertions - The Bruno assertions to convert
+ * @returns Postman test script lines (empty if there is nothing to convert)
+ */
+export function convertAssertions(assertions: BrunoAssertion[]): string[] {
+  const lines: string[] = [];
+
+  for (const assertion of assertions) {
+    if (!assertion.enabled) continue;
+
+    const testName = `${assertion.target}: ${assertion.operator} ${assertion.value}`.trim();
+    const actual = convertResponseExpression(assertion.target);
+
+    lines.push(`pm.test(${JSON.stringify(testName)}, function () {`);
+    lines.push(`  ${buildExpectation(actual, assertion)};`);
+    lines.push('});');
+  }
+
+  return lines;
+}
+
+/**
+ * Translate a Bruno response expression (e.g. the left-hand side of an
+ * assertion) into the equivalent Postman expression
+ * @param target - Bruno expression such as `res.body.id`
+ * @returns Postman expression such as `pm.response.json().id`
+ */
+export function convertResponseExpression(target: string): string {
+  if (target === 'res.status') {
+    return 'pm.response.code';
+  }
+  if (target === 'res.responseTime') {
+    return 'pm.response.responseTime';
+  }
+
+  const headerMatch = target.match(/^res\.headers(?:\.([\w-]+)|\[['"]([^'"]+)['"]\])$/);
+  if (headerMatch) {
+    return `pm.response.headers.get(${JSON.stringify(headerMatch[1] ?? headerMatch[2])})`;
+  }
+
+  if (target === 'res.body' || target.startsWith('res.body.') || target.startsWith('res.body[')) {
+    return `pm.response.json()${target.slice('res.body'.length)}`;
+  }
+
+  // res('path') queries and res.get*() getters
+  return convertResponseCalls(target);
+}
+
+/**
+ * Build the `pm.expect(...)` statement for a single assertion
+ */
+function buildExpectation(actual: string, assertion: BrunoAssertion): string {
+  const expect = `pm.expect(${actual})`;
+  const value = formatAssertionValue(assertion.value);
+
+  switch (assertion.operator) {
+    case 'eq':
+      return `${expect}.to.eql(${value})`;
+    case 'neq':
+      return `${expect}.to.not.eql(${value})`;
+    case 'gt':
+      return `${expect}.to.be.above(${value})`;
+    case 'gte':
+      return `${expect}.to.be.at.least(${value})`;
+    case 'lt':
+      return `${expect}.to.be.below(${value})`;
+    case 'lte':
+      return `${expect}.to.be.at.most(${value})`;
+    case 'in':
+      return `${expect}.to.be.oneOf([${formatValueList(assertion.value).join(', ')}])`;
+    case 'notIn':
+      return `${expect}.to.not.be.oneOf([${formatValueList(assertion.value).join(', ')}])`;
+    case 'contains':
+      return `${expect}.to.include(${value})`;
+    case 'notContains':
+      return `${expect}.to.not.include(${value})`;
+    case 'length':
+      return `${expect}.to.have.lengthOf(${value})`;
+    case 'matches':
+      return `${expect}.to.match(new RegExp(${JSON.stringify(stripQuotes(assertion.value))}))`;
+    case 'notMatches':
+      return `${expect}.to.not.match(new RegExp(${JSON.stringify(stripQuotes(assertion.value))}))`;
+    case 'startsWith':
+      return `pm.expect(String(${actual}).startsWith(${value})).to.be.true`;
+    case 'endsWith':
+      return `pm.expect(String(${actual}).endsWith(${value})).to.be.true`;
+    case 'between': {
+      const [min, max] = formatValueList(assertion.value);
+      return `${expect}.to.be.within(${min}, ${max})`;
+    }
+    case 'isEmpty':
+      return `${expect}.to.be.empty`;
+    case 'isNotEmpty':
+      return `${expect}.to.not.be.empty`;
+    case 'isNull':
+      return `${expect}.to.be.null`;
+    case 'isUndefined':
+      return `${expect}.to.be.undefined`;
+    case 'isDefined':
+      return `${expect}.to.not.be.undefined`;
+    case 'isTruthy':
+      return `${expect}.to.be.ok`;
+    case 'isFalsy':
+      return `${expect}.to.not.be.ok`;
+    case 'isJson':
+      return `${expect}.to.be.an('object')`;
+    case 'isNumber':
+      return `${expect}.to.be.a('number')`;
+    case 'isString':
+      return `${expect}.to.be.a('string')`;
+    case 'isBoolean':
+      return `${expect}.to.be.a('boolean')`;
+    case 'isArray':
+      return `${expect}.to.be.an('array')`;
+  }
+}
+
+/**
+ * Format an assertion value as a JavaScript literal
+ * Numbers, booleans, null and quoted strings are kept as-is,
+ * {{variables}} are resolved at runtime and anything else becomes a string.
+ */
+function formatAssertionValue(value: string): string {
+  const trimmed = value.trim();
+
+  if (/^-?\d+(\.\d+)?$/.test(trimmed)) {
+    return trimmed;
+  }
+  if (['true', 'false', 'null', 'undefined'].includes(trimmed)) {
+    return trimmed;
+  }
+  if (/^(['"]).*\1$/.test(trimmed)) {
+    return trimmed;
+  }
+
+  const variableMatch = trimmed.match(/^\{\{([\w.-]+)\}\}$/);
+  if (variableMatch) {
+    return `pm.variables.get(${JSON.stringify(variableMatch[1])})`;
+  }
+
+  return JSON.stringify(trimmed);
+}
+
+/**
+ * Format a comma separated list value (used by in, notIn and between)
+ */
+function formatValueList(value: string): string[] {
+  const listContent = value.trim().replace(/^\[/, '').replace(/\]$/, '');
+  return listContent
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item)
+    .map(formatAssertionValue);
+}
+
+/**
+ * Remove surrounding quotes or regex slashes from a pattern value
+ */
+function stripQuotes(value: string): string {
+  const trimmed = value.trim();
+  if (/^(['"/]).*\1$/.test(trimmed)) {
+    return trimmed.slice(1, -1);
+  }
+  return trimmed;
+}
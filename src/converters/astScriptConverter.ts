@@ -8,24 +8,49 @@
  * Usage: Opt-in via --experimental-ast flag. Falls back to regex converter on errors.
  *
  * Conversion mappings:
- * - bru.setVar() → pm.environment.set()
- * - bru.getVar() → pm.environment.get()
- * - bru.setEnvVar() → pm.environment.set()
- * - bru.getEnvVar() → pm.environment.get()
+ * - bru.setVar() / getVar() / hasVar() / deleteVar() → pm.collectionVariables.*
+ * - bru.setEnvVar() / getEnvVar() / getProcessEnv() → pm.environment.*
+ * - bru.setGlobalEnvVar() / getGlobalEnvVar() → pm.globals.*
+ *   (variable scopes are configurable, see variableScopeConverter)
+ * - req.getHeader() / setHeader() / deleteHeader() / getHeaders() → pm.request.headers.*
+ * - req.getBody() / setBody() → pm.request.body.raw / pm.request.body.update()
+ * - req.getUrl() / setUrl() → pm.request.url.toString() / pm.request.url.update()
+ * - req.getMethod() / setMethod() → pm.request.method
+ * - req.setTimeout() / setMaxRedirects() → removed with a warning (no Postman equivalent)
+ * - bru.setNextRequest() / bru.runner.setNextRequest() → pm.execution.setNextRequest()
+ * - bru.runner.skipRequest() → pm.execution.skipRequest()
+ * - bru.runner.stopExecution() → pm.execution.setNextRequest(null)
+ * - bru.sleep(ms) → a promise resolved by setTimeout()
+ * - bru.runRequest('path/to/request') → pm.sendRequest() with the referenced request inlined
+ * - bru.sendRequest(options, callback) → pm.sendRequest() with Postman options and response
+ * - bru.interpolate() → pm.variables.replaceIn()
+ * - bru.cookies.jar() → pm.cookies.jar(), with getCookie() / setCookie() / ... → get() / set() / ...
  * - res → pm.response (in test scripts)
  * - res.status → pm.response.code
  * - res.body → pm.response.json()
  * - res.getBody() → pm.response.json()
  * - res.headers → pm.response.headers
  * - res.responseTime → pm.response.responseTime
+ * - res('data.items[0].id') → _.get(pm.response.json(), 'data.items[0].id')
+ * - res.getStatus() / getStatusText() → pm.response.code / pm.response.status
+ * - res.getHeader() / getHeaders() → pm.response.headers.get() / toObject()
+ * - res.getResponseTime() → pm.response.responseTime
  * - test() → pm.test() (Bruno test function)
  * - expect() → pm.expect() (Chai assertions)
  */
 
 import { parse } from '@babel/parser';
-import traverseModule, { NodePath } from '@babel/traverse';
+import traverseModule, { Binding, NodePath } from '@babel/traverse';
 import generateModule from '@babel/generator';
 import * as t from '@babel/types';
+import { BrunoRequest } from '../types/bruno.types.js';
+import {
+  VariableScopeMapping,
+  DEFAULT_VARIABLE_SCOPES,
+  getVariableApiMappings,
+  getProcessEnvWarning,
+} from './variableScopeConverter.js';
+import { normalizeRequestPath, buildSendRequestOptions } from './runRequestConverter.js';
 
 // Handle default exports for ESM compatibility
 const traverse = (traverseModule as { default?: typeof traverseModule } & typeof traverseModule).default || traverseModule;
@@ -40,14 +65,9 @@ interface ASTConversionResult {
 
 /**
  * API mapping configuration for AST transformations
+ * Bruno variable APIs depend on the scope mapping, see getVariableApiMappings.
  */
 const API_MAPPINGS = {
-  // Bruno variable API → Postman environment API
-  'bru.setVar': 'pm.environment.set',
-  'bru.getVar': 'pm.environment.get',
-  'bru.setEnvVar': 'pm.environment.set',
-  'bru.getEnvVar': 'pm.environment.get',
-
   // Bruno response object → Postman response object
   'res.status': 'pm.response.code',
   'res.body': 'pm.response.json()',
@@ -60,18 +80,67 @@ const API_MAPPINGS = {
   'expect': 'pm.expect',
 } as const;
 
+/**
+ * Bruno flow-control APIs with a direct Postman equivalent
+ */
+const FLOW_CONTROL_MAPPINGS: Record<string, string> = {
+  'bru.setNextRequest': 'pm.execution.setNextRequest',
+  'bru.runner.setNextRequest': 'pm.execution.setNextRequest',
+  'bru.runner.skipRequest': 'pm.execution.skipRequest',
+};
+
+/**
+ * Bruno utility APIs with a direct Postman equivalent
+ */
+const UTILITY_MAPPINGS: Record<string, string> = {
+  'bru.interpolate': 'pm.variables.replaceIn',
+  'bru.cookies.jar': 'pm.cookies.jar',
+};
+
+/**
+ * Bruno cookie jar methods and their Postman cookie jar equivalents
+ * Bruno's setCookies() and clear() (all URLs) have none.
+ */
+const COOKIE_JAR_METHODS: Record<string, string> = {
+  getCookie: 'get',
+  getCookies: 'getAll',
+  setCookie: 'set',
+  deleteCookie: 'unset',
+  deleteCookies: 'clear',
+};
+
+/**
+ * Bruno `req` setters Postman scripts cannot express, with the warning shown
+ * when the call is removed
+ */
+const UNSUPPORTED_REQUEST_METHODS: Record<string, string> = {
+  setTimeout: 'req.setTimeout() was removed, Postman has no per-request timeout',
+  setMaxRedirects:
+    'req.setMaxRedirects() was removed, set the redirect limit in the request settings',
+};
+
 /**
  * Convert Bruno pre-request script to Postman using AST parsing
+ * @param collectionRequests - Requests of the collection by normalized path, for bru.runRequest()
  */
-export function convertPreRequestScriptAST(brunoScript: string): ASTConversionResult {
-  return convertScriptAST(brunoScript, 'prerequest');
+export function convertPreRequestScriptAST(
+  brunoScript: string,
+  variableScopes: VariableScopeMapping = DEFAULT_VARIABLE_SCOPES,
+  collectionRequests: Map<string, BrunoRequest> = new Map()
+): ASTConversionResult {
+  return convertScriptAST(brunoScript, 'prerequest', variableScopes, collectionRequests);
 }
 
 /**
  * Convert Bruno test script to Postman using AST parsing
+ * @param collectionRequests - Requests of the collection by normalized path, for bru.runRequest()
  */
-export function convertTestScriptAST(brunoScript: string): ASTConversionResult {
-  return convertScriptAST(brunoScript, 'test');
+export function convertTestScriptAST(
+  brunoScript: string,
+  variableScopes: VariableScopeMapping = DEFAULT_VARIABLE_SCOPES,
+  collectionRequests: Map<string, BrunoRequest> = new Map()
+): ASTConversionResult {
+  return convertScriptAST(brunoScript, 'test', variableScopes, collectionRequests);
 }
 
 /**
@@ -79,10 +148,13 @@ export function convertTestScriptAST(brunoScript: string): ASTConversionResult {
  */
 function convertScriptAST(
   brunoScript: string,
-  scriptType: 'prerequest' | 'test'
+  scriptType: 'prerequest' | 'test',
+  variableScopes: VariableScopeMapping,
+  collectionRequests: Map<string, BrunoRequest>
 ): ASTConversionResult {
   const warnings: string[] = [];
   const errors: string[] = [];
+  const variableMappings = getVariableApiMappings(variableScopes);
 
   try {
     // Parse the script into an AST
@@ -101,6 +173,21 @@ function convertScriptAST(
     // Track responseBody rename warning
     let renamedResponseBody = false;
 
+    // Track bru.getProcessEnv(), which has no Postman equivalent
+    let readsProcessEnv = false;
+
+    // Warning comments about req.* calls that changed behaviour or were removed
+    const requestWarnings = new Set<string>();
+
+    // Warning comments about bru.runRequest() and bru.sendRequest() calls sent with pm.sendRequest()
+    const sendRequestWarnings = new Set<string>();
+
+    // Track bru.cookies.jar(), which needs allowlisted domains in Postman
+    let usesCookieJar = false;
+
+    // Cookie jar calls already converted, visited again once wrapped in a promise
+    const convertedJarCalls = new WeakSet<t.CallExpression>();
+
     // Traverse and transform the AST
     traverse(ast, {
       // Rename 'responseBody' variables in test scripts to avoid Postman sandbox conflict
@@ -126,6 +213,159 @@ function convertScriptAST(
       // Transform call expressions for method calls like bru.setVar(), test(), expect()
       CallExpression(path: NodePath<t.CallExpression>) {
         const node = path.node;
+        const calleeName = getMemberName(node.callee);
+
+        // Handle flow control: bru.setNextRequest(), bru.runner.*(), bru.sleep()
+        if (calleeName && Object.hasOwn(FLOW_CONTROL_MAPPINGS, calleeName)) {
+          node.callee = toMemberExpression(FLOW_CONTROL_MAPPINGS[calleeName]);
+          return;
+        }
+        if (calleeName && Object.hasOwn(UTILITY_MAPPINGS, calleeName)) {
+          usesCookieJar = usesCookieJar || calleeName === 'bru.cookies.jar';
+          node.callee = toMemberExpression(UTILITY_MAPPINGS[calleeName]);
+          return;
+        }
+        if (calleeName === 'bru.runner.stopExecution') {
+          path.replaceWith(
+            t.callExpression(toMemberExpression('pm.execution.setNextRequest'), [t.nullLiteral()])
+          );
+          return;
+        }
+        if (calleeName === 'bru.sleep') {
+          // new Promise((resolve) => setTimeout(resolve, ms)), awaitable like bru.sleep()
+          const resolve = t.identifier('resolve');
+          path.replaceWith(
+            t.newExpression(t.identifier('Promise'), [
+              t.arrowFunctionExpression(
+                [resolve],
+                t.callExpression(t.identifier('setTimeout'), [
+                  t.cloneNode(resolve),
+                  ...node.arguments,
+                ])
+              ),
+            ])
+          );
+          return;
+        }
+
+        // Handle bru.runRequest('path/to/request') → pm.sendRequest({ ... })
+        if (calleeName === 'bru.runRequest') {
+          const [requestPath] = node.arguments;
+          const target = t.isStringLiteral(requestPath)
+            ? collectionRequests.get(normalizeRequestPath(requestPath.value))
+            : undefined;
+
+          if (t.isStringLiteral(requestPath) && target) {
+            path.replaceWith(
+              t.callExpression(toMemberExpression('pm.sendRequest'), [
+                toRequestExpression(buildSendRequestOptions(target)),
+              ])
+            );
+            sendRequestWarnings.add(
+              `// WARNING: bru.runRequest(${JSON.stringify(requestPath.value)}) is sent with pm.sendRequest() - its scripts do not run and it resolves to a Postman response (use .code and .json())`
+            );
+          } else {
+            hasUnmappableCode = true;
+            warnings.push(
+              t.isStringLiteral(requestPath)
+                ? `Request not found for bru.runRequest: ${requestPath.value}`
+                : 'bru.runRequest() needs a literal request path'
+            );
+          }
+          return;
+        }
+
+        // Handle bru.sendRequest(options, callback) → pm.sendRequest(options, callback)
+        if (calleeName === 'bru.sendRequest') {
+          const [options, callback] = node.arguments;
+          node.callee = toMemberExpression('pm.sendRequest');
+
+          if (t.isObjectExpression(options)) {
+            const warningComment =
+              '// WARNING: data loss - bru.sendRequest() timeout was removed, pm.sendRequest() has no timeout option';
+            if (adaptSendRequestOptions(options) && !sendRequestWarnings.has(warningComment)) {
+              sendRequestWarnings.add(warningComment);
+              warnings.push(
+                'bru.sendRequest() timeout was removed, pm.sendRequest() has no timeout option'
+              );
+            }
+          } else {
+            hasUnmappableCode = true;
+            warnings.push('bru.sendRequest() options must be an object literal to be converted');
+          }
+
+          // The response is the callback's second parameter, or the awaited result
+          let response: Binding | undefined;
+          const callbackPath = path.get('arguments')[1];
+          if (
+            callbackPath &&
+            (t.isFunctionExpression(callback) || t.isArrowFunctionExpression(callback)) &&
+            t.isIdentifier(callback.params[1])
+          ) {
+            response = callbackPath.scope.getBinding(callback.params[1].name);
+          } else if (
+            path.parentPath.isAwaitExpression() &&
+            t.isVariableDeclarator(path.parentPath.parent) &&
+            t.isIdentifier(path.parentPath.parent.id)
+          ) {
+            response = path.scope.getBinding(path.parentPath.parent.id.name);
+          }
+          if (response) {
+            adaptSendRequestResponse(response);
+          }
+          return;
+        }
+
+        // Handle cookie jar calls: jar.getCookie(url, name) → jar.get(url, name, callback)
+        if (
+          t.isMemberExpression(node.callee) &&
+          !node.callee.computed &&
+          t.isIdentifier(node.callee.property) &&
+          isCookieJar(node.callee.object, path.scope)
+        ) {
+          const jarMethod = node.callee.property.name;
+
+          if (convertedJarCalls.has(node)) {
+            return;
+          }
+          if (Object.hasOwn(COOKIE_JAR_METHODS, jarMethod)) {
+            node.callee.property = t.identifier(COOKIE_JAR_METHODS[jarMethod]);
+            convertedJarCalls.add(node);
+
+            // Bruno cookies are { key, value, ... }, Postman cookies { name, value, ... }
+            const cookie = node.arguments[1];
+            if (jarMethod === 'setCookie' && t.isObjectExpression(cookie)) {
+              renameObjectKey(cookie, 'key', 'name');
+            }
+
+            // Bruno jar methods return promises, Postman ones only take callbacks
+            const lastArgument = node.arguments[node.arguments.length - 1];
+            const hasCallback =
+              t.isFunctionExpression(lastArgument) || t.isArrowFunctionExpression(lastArgument);
+            if (!hasCallback && !path.parentPath.isExpressionStatement()) {
+              path.replaceWith(toCallbackPromise(node));
+            }
+          } else {
+            hasUnmappableCode = true;
+            warnings.push(`Unmappable Bruno cookie jar method: ${jarMethod}`);
+          }
+          return;
+        }
+
+        // Handle the res('path') query helper and res.get*() getters in test
+        // scripts, unless the script declares its own `res`
+        if (
+          scriptType === 'test' &&
+          calleeName &&
+          (calleeName === 'res' || calleeName.startsWith('res.')) &&
+          !path.scope.hasBinding('res')
+        ) {
+          const replacement = convertResponseCall(calleeName, node.arguments);
+          if (replacement) {
+            path.replaceWith(replacement);
+            return;
+          }
+        }
 
         // Handle bru.method() calls
         if (
@@ -135,10 +375,14 @@ function convertScriptAST(
           t.isIdentifier(node.callee.property)
         ) {
           const bruMethod = `bru.${node.callee.property.name}`;
-          const postmanMethod = API_MAPPINGS[bruMethod as keyof typeof API_MAPPINGS];
+          const postmanMethod = Object.hasOwn(variableMappings, bruMethod)
+            ? variableMappings[bruMethod]
+            : undefined;
 
           if (postmanMethod) {
-            // Replace bru.method() with pm.environment.method()
+            readsProcessEnv = readsProcessEnv || bruMethod === 'bru.getProcessEnv';
+
+            // Replace bru.method() with pm.<scope>.method()
             const parts = postmanMethod.split('.');
             if (parts.length === 3) {
               // pm.environment.set
@@ -156,6 +400,47 @@ function convertScriptAST(
           }
         }
 
+        // Handle req.method() calls on Bruno's request object, unless the script
+        // declares its own `req`
+        if (
+          t.isMemberExpression(node.callee) &&
+          t.isIdentifier(node.callee.object) &&
+          node.callee.object.name === 'req' &&
+          t.isIdentifier(node.callee.property) &&
+          !path.scope.hasBinding('req')
+        ) {
+          const reqMethod = node.callee.property.name;
+
+          if (Object.hasOwn(UNSUPPORTED_REQUEST_METHODS, reqMethod)) {
+            // Repeated calls share one warning comment, so they share one warning too
+            const warningComment = `// WARNING: data loss - ${UNSUPPORTED_REQUEST_METHODS[reqMethod]}`;
+            if (!requestWarnings.has(warningComment)) {
+              requestWarnings.add(warningComment);
+              warnings.push(`Unsupported Bruno API: req.${reqMethod}`);
+            }
+            if (path.parentPath.isExpressionStatement()) {
+              path.parentPath.remove();
+            } else {
+              hasUnmappableCode = true;
+            }
+            return;
+          }
+
+          const replacement = convertRequestCall(reqMethod, node.arguments);
+          if (replacement) {
+            if (reqMethod === 'getBody') {
+              requestWarnings.add(
+                '// WARNING: req.getBody() is converted to the raw body string - use JSON.parse() for JSON bodies'
+              );
+            }
+            path.replaceWith(replacement);
+          } else {
+            hasUnmappableCode = true;
+            warnings.push(`Unmappable Bruno API: req.${reqMethod}`);
+          }
+          return;
+        }
+
         // Handle test() → pm.test()
         if (t.isIdentifier(node.callee) && node.callee.name === 'test') {
           node.callee = t.memberExpression(t.identifier('pm'), t.identifier('test'));
@@ -171,12 +456,14 @@ function convertScriptAST(
       MemberExpression(path: NodePath<t.MemberExpression>) {
         const node = path.node;
 
-        // Handle res.* response object in test scripts
+        // Handle res.* response object in test scripts, unless the script
+        // declares its own `res` (e.g. a bru.sendRequest() callback parameter)
         if (
           scriptType === 'test' &&
           t.isIdentifier(node.object) &&
           node.object.name === 'res' &&
-          t.isIdentifier(node.property)
+          t.isIdentifier(node.property) &&
+          !path.scope.hasBinding('res')
         ) {
           const resProperty = `res.${node.property.name}`;
           const mapping = API_MAPPINGS[resProperty as keyof typeof API_MAPPINGS];
@@ -231,7 +518,8 @@ function convertScriptAST(
             t.isIdentifier(node.object.object) &&
             node.object.object.name === 'res' &&
             t.isIdentifier(node.object.property) &&
-            node.object.property.name === 'headers';
+            node.object.property.name === 'headers' &&
+            !path.scope.hasBinding('res');
 
           // Check for pm.response.headers["key"]
           // Structure: pm.response.headers['key'] is:
@@ -282,7 +570,8 @@ function convertScriptAST(
           node.object.name === 'res' &&
           t.isIdentifier(node.property) &&
           node.property.name === 'getBody' &&
-          t.isCallExpression(path.parent)
+          t.isCallExpression(path.parent) &&
+          !path.scope.hasBinding('res')
         ) {
           // Replace res.getBody() with pm.response.json()
           node.object = t.memberExpression(
@@ -303,6 +592,24 @@ function convertScriptAST(
 
     let finalScript = result.code;
 
+    if (sendRequestWarnings.size > 0) {
+      finalScript = `${[...sendRequestWarnings].join('\n')}\n${finalScript}`;
+    }
+
+    if (usesCookieJar) {
+      finalScript = `// WARNING: pm.cookies.jar() can only access domains allowlisted in the Postman cookie manager\n${finalScript}`;
+      warnings.push('pm.cookies.jar() needs the cookie domains to be allowlisted in Postman');
+    }
+
+    if (requestWarnings.size > 0) {
+      finalScript = `${[...requestWarnings].join('\n')}\n${finalScript}`;
+    }
+
+    if (readsProcessEnv) {
+      finalScript = `${getProcessEnvWarning(variableScopes)}\n${finalScript}`;
+      warnings.push('bru.getProcessEnv() has no Postman equivalent');
+    }
+
     // Add warning comment if there was unmappable code
     if (hasUnmappableCode) {
       finalScript = '// WARNING: partial conversion - review manually\n' + finalScript;
@@ -338,6 +645,333 @@ function convertScriptAST(
   }
 }
 
+/**
+ * Convert a Bruno `req.method(...)` call to its Postman equivalent
+ * @param method - Name of the `req` method
+ * @param args - Arguments of the call
+ * @returns The replacement expression, or undefined if the method or its arguments cannot be mapped
+ */
+function convertRequestCall(
+  method: string,
+  args: t.CallExpression['arguments']
+): t.Expression | undefined {
+  if (!args.every((arg): arg is t.Expression => t.isExpression(arg))) {
+    return undefined;
+  }
+  const [first, second] = args;
+
+  switch (method) {
+    case 'getHeader':
+      return first && t.callExpression(pmRequestMember('headers', 'get'), [first]);
+    case 'setHeader':
+      return (
+        first &&
+        second &&
+        t.callExpression(pmRequestMember('headers', 'upsert'), [
+          t.objectExpression([
+            t.objectProperty(t.identifier('key'), first),
+            t.objectProperty(t.identifier('value'), second),
+          ]),
+        ])
+      );
+    case 'deleteHeader':
+      return first && t.callExpression(pmRequestMember('headers', 'remove'), [first]);
+    case 'getHeaders':
+      return t.callExpression(pmRequestMember('headers', 'toObject'), []);
+    case 'getBody':
+      return pmRequestMember('body', 'raw');
+    case 'setBody':
+      return first && t.callExpression(pmRequestMember('body', 'update'), [toBodyString(first)]);
+    case 'getUrl':
+      return t.callExpression(pmRequestMember('url', 'toString'), []);
+    case 'setUrl':
+      return first && t.callExpression(pmRequestMember('url', 'update'), [first]);
+    case 'getMethod':
+      return pmRequestMember('method');
+    case 'setMethod':
+      return first && t.assignmentExpression('=', pmRequestMember('method'), first);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Convert a Bruno `res(...)` query or `res.getX(...)` getter call to its Postman equivalent
+ * Queries become a lodash lookup (`_` is a Postman sandbox global) over the parsed body.
+ * @param name - Dotted name of the callee, e.g. `res.getStatus`
+ * @param args - Arguments of the call
+ * @returns The replacement expression, or undefined if the call cannot be mapped
+ */
+function convertResponseCall(
+  name: string,
+  args: t.CallExpression['arguments']
+): t.Expression | undefined {
+  if (!args.every((arg): arg is t.Expression => t.isExpression(arg))) {
+    return undefined;
+  }
+  const [first] = args;
+  const responseJson = t.callExpression(toMemberExpression('pm.response.json'), []);
+
+  switch (name) {
+    case 'res':
+      return args.length > 0
+        ? t.callExpression(toMemberExpression('_.get'), [responseJson, ...args])
+        : responseJson;
+    case 'res.getStatus':
+      return toMemberExpression('pm.response.code');
+    case 'res.getStatusText':
+      return toMemberExpression('pm.response.status');
+    case 'res.getHeader':
+      return first && t.callExpression(toMemberExpression('pm.response.headers.get'), [first]);
+    case 'res.getHeaders':
+      return t.callExpression(toMemberExpression('pm.response.headers.toObject'), []);
+    case 'res.getResponseTime':
+      return toMemberExpression('pm.response.responseTime');
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Adapt bru.sendRequest() options (axios style) to pm.sendRequest() options, in place:
+ * `headers` becomes `header` and `data` a raw body
+ * @returns Whether a `timeout` option, which Postman does not support, was removed
+ */
+function adaptSendRequestOptions(options: t.ObjectExpression): boolean {
+  let removedTimeout = false;
+
+  options.properties = options.properties.filter((property) => {
+    if (!t.isObjectProperty(property) || property.computed || !t.isIdentifier(property.key)) {
+      return true;
+    }
+
+    switch (property.key.name) {
+      case 'headers':
+        property.key = t.identifier('header');
+        property.shorthand = false;
+        return true;
+      case 'data':
+        if (t.isExpression(property.value)) {
+          property.key = t.identifier('body');
+          property.value = t.objectExpression([
+            t.objectProperty(t.identifier('mode'), t.stringLiteral('raw')),
+            t.objectProperty(t.identifier('raw'), toBodyString(property.value)),
+          ]);
+          property.shorthand = false;
+        }
+        return true;
+      case 'timeout':
+        removedTimeout = true;
+        return false;
+      default:
+        return true;
+    }
+  });
+
+  return removedTimeout;
+}
+
+/**
+ * Adapt the reads of a bru.sendRequest() response (axios style) to a Postman response:
+ * `status` → `code`, `statusText` → `status`, `data` → `json()`, `headers[name]` → `headers.get(name)`
+ */
+function adaptSendRequestResponse(response: Binding): void {
+  for (const reference of response.referencePaths) {
+    const member = reference.parentPath;
+    if (
+      !member?.isMemberExpression() ||
+      member.node.object !== reference.node ||
+      member.node.computed ||
+      !t.isIdentifier(member.node.property)
+    ) {
+      continue;
+    }
+
+    switch (member.node.property.name) {
+      case 'status':
+        member.node.property = t.identifier('code');
+        break;
+      case 'statusText':
+        member.node.property = t.identifier('status');
+        break;
+      case 'data':
+        member.replaceWith(
+          t.callExpression(t.memberExpression(reference.node, t.identifier('json')), [])
+        );
+        break;
+      case 'headers': {
+        const header = member.parentPath;
+        if (
+          header?.isMemberExpression() &&
+          header.node.object === member.node &&
+          header.node.computed &&
+          t.isExpression(header.node.property)
+        ) {
+          header.replaceWith(
+            t.callExpression(t.memberExpression(member.node, t.identifier('get')), [
+              header.node.property,
+            ])
+          );
+        }
+        break;
+      }
+    }
+  }
+}
+
+/**
+ * Check whether an expression is a Bruno (or already converted Postman) cookie jar:
+ * a `bru.cookies.jar()` call, or a variable initialized with one
+ */
+function isCookieJar(object: t.Node, scope: NodePath['scope']): boolean {
+  if (t.isIdentifier(object)) {
+    const binding = scope.getBinding(object.name);
+    return (
+      !!binding &&
+      t.isVariableDeclarator(binding.path.node) &&
+      !!binding.path.node.init &&
+      isCookieJar(binding.path.node.init, scope)
+    );
+  }
+
+  const name = t.isCallExpression(object) ? getMemberName(object.callee) : undefined;
+  return name === 'bru.cookies.jar' || name === 'pm.cookies.jar';
+}
+
+/**
+ * Rename a non-computed key of an object literal, e.g. `{ key: 'a' }` → `{ name: 'a' }`
+ */
+function renameObjectKey(object: t.ObjectExpression, from: string, to: string): void {
+  for (const property of object.properties) {
+    if (
+      t.isObjectProperty(property) &&
+      !property.computed &&
+      t.isIdentifier(property.key, { name: from })
+    ) {
+      property.key = t.identifier(to);
+      property.shorthand = false;
+    }
+  }
+}
+
+/**
+ * Wrap a callback-style call in a promise, so it can still be awaited:
+ * `new Promise((resolve, reject) => call(...args, (error, result) => ...))`
+ * The callback is appended to the arguments of the call, which is reused as is.
+ */
+function toCallbackPromise(call: t.CallExpression): t.Expression {
+  const [resolve, reject, error, result] = ['resolve', 'reject', 'error', 'result'].map((name) =>
+    t.identifier(name)
+  );
+
+  call.arguments.push(
+    t.arrowFunctionExpression(
+      [error, result],
+      t.conditionalExpression(
+        t.cloneNode(error),
+        t.callExpression(t.cloneNode(reject), [t.cloneNode(error)]),
+        t.callExpression(t.cloneNode(resolve), [t.cloneNode(result)])
+      )
+    )
+  );
+
+  return t.newExpression(t.identifier('Promise'), [
+    t.arrowFunctionExpression([resolve, reject], call),
+  ]);
+}
+
+/**
+ * Get the dotted name of a member expression callee, e.g. `bru.runner.skipRequest`
+ * @returns The name, or undefined for computed or non-identifier members
+ */
+function getMemberName(node: t.Node): string | undefined {
+  if (t.isIdentifier(node)) {
+    return node.name;
+  }
+  if (t.isMemberExpression(node) && !node.computed && t.isIdentifier(node.property)) {
+    const objectName = getMemberName(node.object);
+    return objectName && `${objectName}.${node.property.name}`;
+  }
+  return undefined;
+}
+
+/**
+ * Build a member expression from a dotted name, e.g. `pm.execution.skipRequest`
+ */
+function toMemberExpression(name: string): t.Expression {
+  const [first, ...properties] = name.split('.');
+  return properties.reduce<t.Expression>(
+    (object, property) => t.memberExpression(object, t.identifier(property)),
+    t.identifier(first)
+  );
+}
+
+/**
+ * Convert pm.sendRequest() options to an object literal
+ * Strings referencing variables are resolved with pm.variables.replaceIn(), as
+ * pm.sendRequest() does not interpolate them.
+ */
+function toRequestExpression(value: unknown): t.Expression {
+  if (typeof value === 'string' && value.includes('{{')) {
+    return t.callExpression(toMemberExpression('pm.variables.replaceIn'), [t.stringLiteral(value)]);
+  }
+  if (Array.isArray(value)) {
+    return t.arrayExpression(value.map(toRequestExpression));
+  }
+  if (value && typeof value === 'object') {
+    return t.objectExpression(
+      Object.entries(value)
+        .filter(([, entry]) => entry !== undefined)
+        .map(([key, entry]) =>
+          t.objectProperty(
+            t.isValidIdentifier(key) ? t.identifier(key) : t.stringLiteral(key),
+            toRequestExpression(entry)
+          )
+        )
+    );
+  }
+  return t.valueToNode(value);
+}
+
+/**
+ * Build a `pm.request.<properties>` member expression
+ */
+function pmRequestMember(...properties: string[]): t.MemberExpression {
+  return properties.reduce<t.MemberExpression>(
+    (object, property) => t.memberExpression(object, t.identifier(property)),
+    t.memberExpression(t.identifier('pm'), t.identifier('request'))
+  );
+}
+
+/**
+ * Convert a req.setBody() argument to the string pm.request.body.update() expects
+ * Bruno accepts objects for JSON bodies, which must be serialized.
+ */
+function toBodyString(body: t.Expression): t.Expression {
+  if (t.isStringLiteral(body) || t.isTemplateLiteral(body)) {
+    return body;
+  }
+
+  const stringified = t.callExpression(
+    t.memberExpression(t.identifier('JSON'), t.identifier('stringify')),
+    [body]
+  );
+  if (!t.isIdentifier(body) && !t.isMemberExpression(body)) {
+    return stringified;
+  }
+
+  // Variables may already hold a string, which must not be serialized twice
+  return t.conditionalExpression(
+    t.binaryExpression(
+      '===',
+      t.unaryExpression('typeof', t.cloneNode(body)),
+      t.stringLiteral('string')
+    ),
+    t.cloneNode(body),
+    stringified
+  );
+}
+
 /**
  * Utility to detect if a script contains complex constructs that benefit from AST
  */
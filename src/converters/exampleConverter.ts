@@ -0,0 +1,63 @@
+/**
+ * Converts Bruno saved response examples to Postman responses
+ *
+ * Each `example` block becomes an entry of the item's `response` array, with the
+ * example request (falling back to the parent request) as `originalRequest`.
+ */
+
+import { BrunoExample, BrunoRequest } from '../types/bruno.types.js';
+import { PostmanResponse } from '../types/postman.types.js';
+import { convertBrunoToPostmanRequest } from './requestConverter.js';
+
+/**
+ * Postman preview languages for Bruno response body types
+ */
+const PREVIEW_LANGUAGES: Record<string, string> = {
+  json: 'json',
+  xml: 'xml',
+  html: 'html',
+  text: 'text',
+};
+
+/**
+ * Convert the examples of a Bruno request to Postman responses
+ * @param brunoRequest - The Bruno request holding the examples
+ * @returns Postman responses (empty if the request has no examples)
+ */
+export function convertExamples(brunoRequest: BrunoRequest): PostmanResponse[] {
+  return (brunoRequest.examples ?? []).map((example) => convertExample(example, brunoRequest));
+}
+
+/**
+ * Convert a single Bruno example to a Postman response
+ */
+function convertExample(example: BrunoExample, brunoRequest: BrunoRequest): PostmanResponse {
+  const exampleRequest = example.request;
+  const originalRequest = convertBrunoToPostmanRequest({
+    ...brunoRequest,
+    url: exampleRequest?.url || brunoRequest.url,
+    method: exampleRequest?.method ?? brunoRequest.method,
+    headers: exampleRequest ? exampleRequest.headers : brunoRequest.headers,
+    queryParams: exampleRequest ? exampleRequest.queryParams : brunoRequest.queryParams,
+    body: exampleRequest ? exampleRequest.body : brunoRequest.body,
+    docs: undefined,
+  });
+
+  const response: PostmanResponse = {
+    name: example.name,
+    originalRequest,
+    status: example.response.status,
+    code: example.response.code,
+    header: example.response.headers
+      .filter((header) => header.enabled)
+      .map((header) => ({ key: header.key, value: header.value, type: 'text' })),
+    body: example.response.body ?? '',
+  };
+
+  const previewLanguage = PREVIEW_LANGUAGES[example.response.bodyType ?? ''];
+  if (previewLanguage) {
+    response._postman_previewlanguage = previewLanguage;
+  }
+
+  return response;
+}
@@ -1,14 +1,25 @@
-import { BrunoRequest, BrunoBody, BrunoAuth } from '../types/bruno.types.js';
-import { PostmanRequest, PostmanBody, PostmanAuth, PostmanHeader } from '../types/postman.types.js';
+import { BrunoRequest, BrunoBody, BrunoBodyFile, BrunoAuth } from '../types/bruno.types.js';
+import {
+  PostmanRequest,
+  PostmanBody,
+  PostmanAuth,
+  PostmanAuthAttribute,
+  PostmanHeader,
+  PostmanPathVariable,
+} from '../types/postman.types.js';
 import { parseUrl } from '../utils/urlParser.js';
 
 /**
  * Convert a Bruno request to a Postman request
  * @param bruno - The Bruno request to convert
+ * @param warnings - Array to collect conversion warnings (missing path parameters)
  * @returns The converted Postman request
  */
-export function convertBrunoToPostmanRequest(bruno: BrunoRequest): PostmanRequest {
-  const url = parseUrl(bruno.url);
+export function convertBrunoToPostmanRequest(
+  bruno: BrunoRequest,
+  warnings: string[] = []
+): PostmanRequest {
+  const { pathVariables, ...url } = parseUrl(bruno.url);
 
   // Add query parameters from Bruno to URL
   if (bruno.queryParams.length > 0) {
@@ -30,22 +41,66 @@ export function convertBrunoToPostmanRequest(bruno: BrunoRequest): PostmanReques
   const request: PostmanRequest = {
     method: bruno.method,
     header: headers,
-    url,
+    // :name path segments are filled from params:path so they are editable in Postman
+    url:
+      pathVariables.length > 0
+        ? { ...url, variable: convertPathVariables(bruno, pathVariables, warnings) }
+        : url,
   };
 
+  // Bruno docs are Markdown, which Postman renders in its documentation view.
+  // Postman has no request tags, so they are listed in a footer.
+  const tags = bruno.meta.tags ?? [];
+  const tagsFooter = tags.length > 0 ? `Tags: ${tags.map((tag) => `\`${tag}\``).join(', ')}` : '';
+  const description = [bruno.docs, tagsFooter].filter((part) => part).join('\n\n');
+  if (description) {
+    request.description = description;
+  }
+
   // Convert body if present
   if (bruno.body && bruno.body.mode !== 'none') {
     request.body = convertBody(bruno.body);
   }
 
+  // Postman file bodies carry no content type, so send Bruno's as a header
+  const contentType =
+    bruno.body?.mode === 'file' ? getSelectedFile(bruno.body)?.contentType : undefined;
+  if (contentType && !headers.some((header) => header.key.toLowerCase() === 'content-type')) {
+    headers.push({ key: 'Content-Type', value: contentType, type: 'text', disabled: false });
+  }
+
   // Convert authentication if present
-  if (bruno.auth && bruno.auth.type !== 'none') {
+  // Requests without auth inherit it from their folder or collection in Postman
+  if (bruno.auth && bruno.auth.type !== 'none' && bruno.auth.type !== 'inherit') {
     request.auth = convertAuth(bruno.auth);
   }
 
   return request;
 }
 
+/**
+ * Build Postman URL variables for the `:name` segments of a Bruno URL
+ * @param bruno - The Bruno request holding the params:path values
+ * @param pathVariables - Path parameter names found in the URL
+ * @param warnings - Array to collect warnings about path parameters without a value
+ * @returns Postman path variables (empty value when params:path has no entry)
+ */
+function convertPathVariables(
+  bruno: BrunoRequest,
+  pathVariables: string[],
+  warnings: string[]
+): PostmanPathVariable[] {
+  return pathVariables.map((name) => {
+    const param = bruno.pathParams.find((pathParam) => pathParam.key === name);
+    if (!param) {
+      warnings.push(
+        `Path parameter ":${name}" in ${bruno.url} has no matching params:path entry (request "${bruno.meta.name}")`
+      );
+    }
+    return { key: name, value: param?.value ?? '' };
+  });
+}
+
 /**
  * Convert Bruno body to Postman body
  * @param brunoBody - The Bruno body to convert
@@ -87,16 +142,29 @@ export function convertBody(brunoBody: BrunoBody): PostmanBody {
       };
       break;
 
+    case 'graphql':
+      body.mode = 'graphql';
+      body.graphql = {
+        query: brunoBody.content,
+        variables: brunoBody.graphqlVariables || '',
+      };
+      break;
+
+    case 'file':
+      body.mode = 'file';
+      body.file = {
+        src: getSelectedFile(brunoBody)?.filePath ?? '',
+      };
+      break;
+
     case 'form-urlencoded':
       body.mode = 'urlencoded';
-      body.urlencoded = brunoBody.content.split('\n').map((line) => {
-        const [key, value] = line.split(':').map((s) => s.trim());
-        return {
-          key: key || '',
-          value: value || '',
-          type: 'text',
-        };
-      });
+      body.urlencoded = (brunoBody.formData ?? []).map((entry) => ({
+        key: entry.key,
+        value: entry.value,
+        type: 'text',
+        disabled: !entry.enabled,
+      }));
       break;
 
     case 'multipart':
@@ -121,6 +189,14 @@ export function convertBody(brunoBody: BrunoBody): PostmanBody {
   return body;
 }
 
+/**
+ * Get the file sent by a body:file body (the selected entry, or the first one)
+ */
+function getSelectedFile(brunoBody: BrunoBody): BrunoBodyFile | undefined {
+  const files = brunoBody.files ?? [];
+  return files.find((file) => file.selected) ?? files[0];
+}
+
 /**
  * Convert Bruno authentication to Postman authentication
  * @param brunoAuth - The Bruno authentication to convert
@@ -186,6 +262,50 @@ export function convertAuth(brunoAuth: BrunoAuth): PostmanAuth {
       }
       break;
 
+    case 'oauth2':
+      auth.type = 'oauth2';
+      if (brunoAuth.oauth2) {
+        auth.oauth2 = convertOAuth2(brunoAuth.oauth2);
+      }
+      break;
+
+    case 'awsv4':
+      auth.type = 'awsv4';
+      if (brunoAuth.awsv4) {
+        auth.awsv4 = toAuthAttributes([
+          ['accessKey', brunoAuth.awsv4.accessKeyId],
+          ['secretKey', brunoAuth.awsv4.secretAccessKey],
+          ['sessionToken', brunoAuth.awsv4.sessionToken],
+          ['service', brunoAuth.awsv4.service],
+          ['region', brunoAuth.awsv4.region],
+        ]);
+      }
+      break;
+
+    case 'digest':
+      auth.type = 'digest';
+      if (brunoAuth.digest) {
+        auth.digest = toAuthAttributes([
+          ['username', brunoAuth.digest.username],
+          ['password', brunoAuth.digest.password],
+          ['algorithm', 'MD5'],
+        ]);
+      }
+      break;
+
+    case 'ntlm':
+      auth.type = 'ntlm';
+      if (brunoAuth.ntlm) {
+        auth.ntlm = toAuthAttributes([
+          ['username', brunoAuth.ntlm.username],
+          ['password', brunoAuth.ntlm.password],
+          ['domain', brunoAuth.ntlm.domain],
+        ]);
+      }
+      break;
+
+    // WSSE has no Postman equivalent, see convertAuthScript
+
     default:
       auth.type = 'noauth';
       break;
@@ -193,3 +313,99 @@ export function convertAuth(brunoAuth: BrunoAuth): PostmanAuth {
 
   return auth;
 }
+
+/**
+ * Convert Bruno OAuth2 settings to Postman oauth2 auth attributes
+ * @param oauth2 - The Bruno OAuth2 settings
+ * @returns The Postman oauth2 attribute list
+ */
+function convertOAuth2(oauth2: NonNullable<BrunoAuth['oauth2']>): PostmanAuthAttribute[] {
+  const grantTypes: Record<typeof oauth2.grantType, string> = {
+    client_credentials: 'client_credentials',
+    password: 'password_credentials',
+    authorization_code: oauth2.pkce ? 'authorization_code_with_pkce' : 'authorization_code',
+  };
+
+  const attributes: Array<[string, string | undefined]> = [
+    ['grant_type', grantTypes[oauth2.grantType]],
+    ['accessTokenUrl', oauth2.accessTokenUrl],
+    ['clientId', oauth2.clientId],
+    ['clientSecret', oauth2.clientSecret],
+    ['scope', oauth2.scope],
+  ];
+
+  if (oauth2.grantType === 'password') {
+    attributes.push(['username', oauth2.username], ['password', oauth2.password]);
+  }
+
+  if (oauth2.grantType === 'authorization_code') {
+    attributes.push(
+      ['authUrl', oauth2.authorizationUrl],
+      ['redirect_uri', oauth2.callbackUrl],
+      ['state', oauth2.state]
+    );
+    if (oauth2.pkce) {
+      attributes.push(['challengeAlgorithm', 'S256']);
+    }
+  }
+
+  if (oauth2.credentialsPlacement) {
+    attributes.push([
+      'client_authentication',
+      oauth2.credentialsPlacement === 'basic_auth_header' ? 'header' : 'body',
+    ]);
+  }
+
+  attributes.push(['addTokenTo', oauth2.tokenPlacement === 'url' ? 'queryParams' : 'header']);
+
+  return toAuthAttributes(attributes);
+}
+
+/**
+ * Build a Postman auth attribute list, skipping attributes without a value
+ * @param attributes - Key/value pairs of the auth settings
+ * @returns The Postman auth attribute list
+ */
+function toAuthAttributes(attributes: Array<[string, string | undefined]>): PostmanAuthAttribute[] {
+  return attributes
+    .filter((attribute): attribute is [string, string] => attribute[1] !== undefined)
+    .map(([key, value]) => ({ key, value, type: 'string' }));
+}
+
+/**
+ * Build a helper pre-request script for Bruno auth settings that Postman cannot
+ * express natively. The script starts with a data-loss warning comment.
+ * @param brunoAuth - The Bruno authentication to convert
+ * @param warnings - Array to collect conversion warnings
+ * @returns Pre-request script lines (empty if the auth converts natively)
+ */
+export function convertAuthScript(brunoAuth: BrunoAuth, warnings: string[] = []): string[] {
+  if (brunoAuth.type === 'wsse' && brunoAuth.wsse) {
+    warnings.push(
+      'Postman has no WSSE auth, the X-WSSE header is generated by a pre-request script'
+    );
+    return [
+      '// WARNING: data loss - Postman has no WSSE auth, the X-WSSE header is generated below',
+      `const wsseUsername = pm.variables.replaceIn(${JSON.stringify(brunoAuth.wsse.username)});`,
+      `const wssePassword = pm.variables.replaceIn(${JSON.stringify(brunoAuth.wsse.password)});`,
+      'const wsseNonce = CryptoJS.lib.WordArray.random(16).toString();',
+      'const wsseCreated = new Date().toISOString();',
+      'const wsseDigest = CryptoJS.SHA1(wsseNonce + wsseCreated + wssePassword).toString(CryptoJS.enc.Base64);',
+      'pm.request.headers.upsert({',
+      "  key: 'X-WSSE',",
+      '  value: `UsernameToken Username="${wsseUsername}", PasswordDigest="${wsseDigest}", Nonce="${wsseNonce}", Created="${wsseCreated}"`,',
+      '});',
+    ];
+  }
+
+  if (brunoAuth.type === 'awsv4' && brunoAuth.awsv4?.profileName) {
+    warnings.push(
+      `AWS profile "${brunoAuth.awsv4.profileName}" cannot be used by Postman, set the access keys manually`
+    );
+    return [
+      `// WARNING: data loss - AWS profile "${brunoAuth.awsv4.profileName}" cannot be used by Postman, set the access keys manually`,
+    ];
+  }
+
+  return [];
+}
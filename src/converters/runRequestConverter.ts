@@ -0,0 +1,66 @@
+/**
+ * Converts the targets of Bruno's `bru.runRequest()` to `pm.sendRequest()` options
+ *
+ * Bruno runs another request of the collection by its path, e.g.
+ * `bru.runRequest('auth/login')`. Postman has no equivalent, so the referenced
+ * request is inlined as a `pm.sendRequest()` call. Its scripts and assertions
+ * do not run.
+ */
+
+import { BrunoRequest } from '../types/bruno.types.js';
+import { PostmanUrl } from '../types/postman.types.js';
+import { convertBrunoToPostmanRequest } from './requestConverter.js';
+
+/**
+ * Normalize a request path, as written in `bru.runRequest()` or built from the
+ * collection tree: no leading `./` or `/`, no `.bru` extension
+ * @param requestPath - Path of the request relative to the collection root
+ * @returns Path used as the key of the collection request index
+ */
+export function normalizeRequestPath(requestPath: string): string {
+  return requestPath
+    .trim()
+    .replace(/\\/g, '/')
+    .replace(/^(\.?\/)+/, '')
+    .replace(/\.bru$/, '');
+}
+
+/**
+ * Build the `pm.sendRequest()` options of a Bruno request
+ * @param brunoRequest - The referenced Bruno request
+ * @returns Request options: url (with path variables filled in), method,
+ *   enabled headers, body and auth
+ */
+export function buildSendRequestOptions(brunoRequest: BrunoRequest): Record<string, unknown> {
+  const request = convertBrunoToPostmanRequest(brunoRequest);
+  const options: Record<string, unknown> = {
+    url: typeof request.url === 'string' ? request.url : fillPathVariables(request.url),
+    method: request.method,
+  };
+
+  const headers = request.header
+    .filter((header) => !header.disabled)
+    .map(({ key, value }) => ({ key, value }));
+  if (headers.length > 0) {
+    options.header = headers;
+  }
+  if (request.body) {
+    options.body = request.body;
+  }
+  if (request.auth) {
+    options.auth = request.auth;
+  }
+
+  return options;
+}
+
+/**
+ * Get the raw URL of a request with its `:name` path variables replaced by their values
+ */
+function fillPathVariables(url: Exclude<PostmanUrl, string>): string {
+  return (url.variable ?? []).reduce(
+    (raw, variable) =>
+      raw.replace(new RegExp(`/:${variable.key}(?=/|\\?|#|$)`), `/${variable.value}`),
+    url.raw
+  );
+}
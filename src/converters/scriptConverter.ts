@@ -5,43 +5,72 @@
  * This converter performs best-effort conversion with warnings for unmappable code.
  *
  * Conversion mappings:
- * - bru.setVar() → pm.environment.set()
- * - bru.getVar() → pm.environment.get()
- * - bru.setEnvVar() → pm.environment.set()
- * - bru.getEnvVar() → pm.environment.get()
+ * - bru.setVar() / getVar() / hasVar() / deleteVar() → pm.collectionVariables.*
+ * - bru.setEnvVar() / getEnvVar() / getProcessEnv() → pm.environment.*
+ * - bru.setGlobalEnvVar() / getGlobalEnvVar() → pm.globals.*
+ *   (variable scopes are configurable, see variableScopeConverter)
+ * - req.*() calls are left as-is and flagged for review (use --experimental-ast)
  * - res → pm.response (in test scripts)
  * - res.status → pm.response.code
  * - res.body → pm.response.json()
  * - res.headers → pm.response.headers
  * - res.responseTime → pm.response.responseTime
+ * - res('data.items[0].id') → _.get(pm.response.json(), 'data.items[0].id')
+ * - res.getStatus() / getStatusText() → pm.response.code / pm.response.status
+ * - res.getHeader(name) / getHeaders() → pm.response.headers.get(name) / toObject()
+ * - res.getResponseTime() → pm.response.responseTime
  * - test() → pm.test() (Bruno test function)
  * - expect() → pm.expect() (Chai assertions)
  */
 
+import {
+  VariableScopeMapping,
+  DEFAULT_VARIABLE_SCOPES,
+  getVariableApiMappings,
+  getProcessEnvWarning,
+} from './variableScopeConverter.js';
+
+/**
+ * Start of a call to Bruno's `res('path')` query helper (not a method named `res`)
+ */
+const RESPONSE_QUERY = /(?<![\w$.])res\s*\(/;
+
+/**
+ * Bruno response getters and their Postman equivalents
+ */
+const RESPONSE_GETTERS: Record<string, string> = {
+  'res.getBody()': 'pm.response.json()',
+  'res.getStatus()': 'pm.response.code',
+  'res.getStatusText()': 'pm.response.status',
+  'res.getHeader(': 'pm.response.headers.get(',
+  'res.getHeaders()': 'pm.response.headers.toObject()',
+  'res.getResponseTime()': 'pm.response.responseTime',
+};
+
+/**
+ * Call on Bruno's request object, e.g. `req.setHeader(...)`
+ */
+const REQUEST_CALL = /\breq\.\w+\s*\(/;
+
 interface ScriptConversionResult {
   script: string[];
   warnings: string[];
 }
 
-/**
- * API mapping table for Bruno to Postman conversions
- */
-const API_MAPPINGS = {
-  'bru.setVar': 'pm.environment.set',
-  'bru.getVar': 'pm.environment.get',
-  'bru.setEnvVar': 'pm.environment.set',
-  'bru.getEnvVar': 'pm.environment.get',
-} as const;
-
 /**
  * Convert Bruno pre-request script to Postman pre-request script
  * @param brunoScript - The Bruno pre-request script
+ * @param variableScopes - Postman scope of each Bruno variable scope
  * @returns Converted script lines and warnings
  */
-export function convertPreRequestScript(brunoScript: string): ScriptConversionResult {
+export function convertPreRequestScript(
+  brunoScript: string,
+  variableScopes: VariableScopeMapping = DEFAULT_VARIABLE_SCOPES
+): ScriptConversionResult {
   const lines = brunoScript.split('\n');
   const convertedLines: string[] = [];
   const warnings: string[] = [];
+  const apiMappings = getVariableApiMappings(variableScopes);
   let hasUnmappableCode = false;
 
   for (const line of lines) {
@@ -49,21 +78,25 @@ export function convertPreRequestScript(brunoScript: string): ScriptConversionRe
     let lineConverted = false;
 
     // Apply API mappings
-    for (const [brunoApi, postmanApi] of Object.entries(API_MAPPINGS)) {
-      if (convertedLine.includes(brunoApi)) {
-        convertedLine = convertedLine.replace(new RegExp(brunoApi, 'g'), postmanApi);
+    for (const [brunoApi, postmanApi] of Object.entries(apiMappings)) {
+      const pattern = getApiPattern(brunoApi);
+      if (pattern.test(convertedLine)) {
+        convertedLine = convertedLine.replace(pattern, postmanApi);
         lineConverted = true;
       }
     }
 
-    // Check for unmappable Bruno-specific code
-    if (!lineConverted && line.includes('bru.') && !line.trim().startsWith('//')) {
+    // Check for unmappable Bruno-specific code (req.* calls need the AST converter)
+    const isComment = line.trim().startsWith('//');
+    if (!isComment && ((!lineConverted && line.includes('bru.')) || REQUEST_CALL.test(line))) {
       hasUnmappableCode = true;
     }
 
     convertedLines.push(convertedLine);
   }
 
+  addProcessEnvWarning(brunoScript, convertedLines, warnings, variableScopes);
+
   // Add warning if there's unmappable code
   if (hasUnmappableCode) {
     convertedLines.unshift('// WARNING: partial conversion - review manually');
@@ -79,12 +112,17 @@ export function convertPreRequestScript(brunoScript: string): ScriptConversionRe
 /**
  * Convert Bruno test script to Postman test script
  * @param brunoScript - The Bruno test script
+ * @param variableScopes - Postman scope of each Bruno variable scope
  * @returns Converted script lines and warnings
  */
-export function convertTestScript(brunoScript: string): ScriptConversionResult {
+export function convertTestScript(
+  brunoScript: string,
+  variableScopes: VariableScopeMapping = DEFAULT_VARIABLE_SCOPES
+): ScriptConversionResult {
   const lines = brunoScript.split('\n');
   const convertedLines: string[] = [];
   const warnings: string[] = [];
+  const apiMappings = getVariableApiMappings(variableScopes);
   let hasUnmappableCode = false;
 
   for (const line of lines) {
@@ -92,9 +130,10 @@ export function convertTestScript(brunoScript: string): ScriptConversionResult {
     let lineConverted = false;
 
     // Apply API mappings for bru.* functions
-    for (const [brunoApi, postmanApi] of Object.entries(API_MAPPINGS)) {
-      if (convertedLine.includes(brunoApi)) {
-        convertedLine = convertedLine.replace(new RegExp(brunoApi, 'g'), postmanApi);
+    for (const [brunoApi, postmanApi] of Object.entries(apiMappings)) {
+      const pattern = getApiPattern(brunoApi);
+      if (pattern.test(convertedLine)) {
+        convertedLine = convertedLine.replace(pattern, postmanApi);
         lineConverted = true;
       }
     }
@@ -106,9 +145,10 @@ export function convertTestScript(brunoScript: string): ScriptConversionResult {
       lineConverted = true;
     }
 
-    // res.getBody() → pm.response.json()
-    if (convertedLine.includes('res.getBody()')) {
-      convertedLine = convertedLine.replace(/res\.getBody\(\)/g, 'pm.response.json()');
+    // res('path') query helper and res.get*() getters → pm.response equivalents
+    const responseCallsLine = convertResponseCalls(convertedLine);
+    if (responseCallsLine !== convertedLine) {
+      convertedLine = responseCallsLine;
       lineConverted = true;
     }
 
@@ -144,14 +184,17 @@ export function convertTestScript(brunoScript: string): ScriptConversionResult {
       lineConverted = true;
     }
 
-    // Check for unmappable Bruno-specific code
-    if (!lineConverted && line.includes('bru.') && !line.trim().startsWith('//')) {
+    // Check for unmappable Bruno-specific code (req.* calls need the AST converter)
+    const isComment = line.trim().startsWith('//');
+    if (!isComment && ((!lineConverted && line.includes('bru.')) || REQUEST_CALL.test(line))) {
       hasUnmappableCode = true;
     }
 
     convertedLines.push(convertedLine);
   }
 
+  addProcessEnvWarning(brunoScript, convertedLines, warnings, variableScopes);
+
   // Add warning if there's unmappable code
   if (hasUnmappableCode) {
     convertedLines.unshift('// WARNING: partial conversion - review manually');
@@ -163,3 +206,54 @@ export function convertTestScript(brunoScript: string): ScriptConversionResult {
     warnings,
   };
 }
+
+/**
+ * Convert Bruno response calls in a script line or expression: the
+ * `res('path')` query helper and the `res.get*()` getters
+ * The query helper becomes a lodash lookup over the parsed body (lodash is a Postman sandbox global).
+ * @param line - Script line or response expression
+ * @returns The line with its response calls converted to pm.response equivalents
+ */
+export function convertResponseCalls(line: string): string {
+  let convertedLine = line;
+
+  if (RESPONSE_QUERY.test(convertedLine)) {
+    convertedLine = convertedLine
+      .replace(new RegExp(`${RESPONSE_QUERY.source}\\s*\\)`, 'g'), 'pm.response.json()')
+      .replace(new RegExp(RESPONSE_QUERY.source, 'g'), '_.get(pm.response.json(), ');
+  }
+
+  // Same boundary as the query helper, so `myres.getStatus()` is left alone
+  for (const [brunoGetter, postmanGetter] of Object.entries(RESPONSE_GETTERS)) {
+    const pattern = new RegExp(`(?<![\\w$.])${brunoGetter.replace(/[.()]/g, '\\$&')}`, 'g');
+    convertedLine = convertedLine.replace(pattern, postmanGetter);
+  }
+
+  return convertedLine;
+}
+
+/**
+ * Match a Bruno API name as a whole word, e.g. `bru.getVar` but not `bru.getVars`
+ */
+function getApiPattern(brunoApi: string): RegExp {
+  return new RegExp(`\\b${brunoApi.replace(/\./g, '\\.')}\\b`, 'g');
+}
+
+/**
+ * Prepend a data-loss warning when the script reads the process environment
+ * @param brunoScript - The original Bruno script
+ * @param convertedLines - Converted script lines to prepend the warning to
+ * @param warnings - Conversion warnings
+ * @param variableScopes - Postman scope of each Bruno variable scope
+ */
+function addProcessEnvWarning(
+  brunoScript: string,
+  convertedLines: string[],
+  warnings: string[],
+  variableScopes: VariableScopeMapping
+): void {
+  if (getApiPattern('bru.getProcessEnv').test(brunoScript)) {
+    convertedLines.unshift(getProcessEnvWarning(variableScopes));
+    warnings.push('bru.getProcessEnv() has no Postman equivalent');
+  }
+}
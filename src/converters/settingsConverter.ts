@@ -0,0 +1,50 @@
+/**
+ * Converts the Bruno request `settings` block to Postman
+ *
+ * Conversion mappings:
+ * - encodeUrl → protocolProfileBehavior.disableUrlEncoding (inverted)
+ * - followRedirects → protocolProfileBehavior.followRedirects
+ * - maxRedirects → protocolProfileBehavior.maxRedirects
+ * - timeout → no per-request equivalent, reported as a warning
+ */
+
+import { BrunoSettings } from '../types/bruno.types.js';
+
+/**
+ * Convert Bruno request settings to Postman's protocolProfileBehavior
+ * @param settings - The Bruno request settings
+ * @returns protocolProfileBehavior entries (empty if nothing maps)
+ */
+export function convertSettings(settings: BrunoSettings): Record<string, unknown> {
+  const behavior: Record<string, unknown> = {};
+
+  if (settings.encodeUrl !== undefined) {
+    behavior.disableUrlEncoding = !settings.encodeUrl;
+  }
+  if (settings.followRedirects !== undefined) {
+    behavior.followRedirects = settings.followRedirects;
+  }
+  if (settings.maxRedirects !== undefined) {
+    behavior.maxRedirects = settings.maxRedirects;
+  }
+
+  return behavior;
+}
+
+/**
+ * Build conversion warnings for settings Postman cannot express per request
+ * @param settings - The Bruno request settings
+ * @returns Warning messages (empty if every setting converts)
+ */
+export function convertSettingsWarnings(settings: BrunoSettings): string[] {
+  const warnings: string[] = [];
+
+  // A timeout of 0 means Bruno's default, which needs no warning
+  if (settings.timeout) {
+    warnings.push(
+      `Postman has no per-request timeout, set the ${settings.timeout} ms timeout in Postman's settings`
+    );
+  }
+
+  return warnings;
+}
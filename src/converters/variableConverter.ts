@@ -0,0 +1,50 @@
+/**
+ * Converts Bruno request-level variables to Postman script lines
+ *
+ * Conversion mappings:
+ * - vars:pre-request → pm.variables.set() in the prerequest event
+ * - vars:post-response → pm.collectionVariables.set() in the test event, so
+ *   captured values (e.g. tokens) are visible to the following requests
+ *   (the Postman scope of Bruno runtime variables, which is configurable)
+ */
+
+import { BrunoRequestVariable } from '../types/bruno.types.js';
+import { convertResponseExpression } from './assertionConverter.js';
+import { VariableScopeMapping, DEFAULT_VARIABLE_SCOPES } from './variableScopeConverter.js';
+
+/**
+ * Convert `vars:pre-request` entries to Postman pre-request script lines
+ * @param variables - The Bruno pre-request variables
+ * @returns Postman script lines (empty if there is nothing to convert)
+ */
+export function convertPreRequestVars(variables: BrunoRequestVariable[]): string[] {
+  return variables
+    .filter((variable) => variable.enabled)
+    .map((variable) => {
+      const value = JSON.stringify(variable.value);
+      // Values may reference other variables, which Bruno interpolates
+      const resolvedValue = variable.value.includes('{{')
+        ? `pm.variables.replaceIn(${value})`
+        : value;
+      return `pm.variables.set(${JSON.stringify(variable.key)}, ${resolvedValue});`;
+    });
+}
+
+/**
+ * Convert `vars:post-response` entries to Postman test script lines
+ * Each value is a response expression such as `res.body.access_token` or `res('data.token')`.
+ * @param variables - The Bruno post-response variables
+ * @param variableScopes - Postman scope of each Bruno variable scope
+ * @returns Postman script lines (empty if there is nothing to convert)
+ */
+export function convertPostResponseVars(
+  variables: BrunoRequestVariable[],
+  variableScopes: VariableScopeMapping = DEFAULT_VARIABLE_SCOPES
+): string[] {
+  return variables
+    .filter((variable) => variable.enabled)
+    .map(
+      (variable) =>
+        `pm.${variableScopes.runtime}.set(${JSON.stringify(variable.key)}, ${convertResponseExpression(variable.value)});`
+    );
+}
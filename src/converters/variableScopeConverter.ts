@@ -0,0 +1,99 @@
+/**
+ * Maps Bruno variable scopes to Postman variable scopes for script conversion
+ *
+ * Bruno scripts read and write three scopes: runtime variables (kept for the
+ * collection run), environment variables and global environment variables.
+ * Each one is mapped to a Postman scope, by default:
+ * - runtime (bru.setVar, getVar, hasVar, deleteVar) → pm.collectionVariables
+ * - env (bru.setEnvVar, getEnvVar, getProcessEnv) → pm.environment
+ * - globals (bru.setGlobalEnvVar, getGlobalEnvVar) → pm.globals
+ */
+
+/**
+ * Postman variable scopes, as named on the `pm` object
+ */
+export const POSTMAN_VARIABLE_SCOPES = [
+  'variables',
+  'collectionVariables',
+  'environment',
+  'globals',
+] as const;
+export type PostmanVariableScope = (typeof POSTMAN_VARIABLE_SCOPES)[number];
+
+/**
+ * Postman scope used for each Bruno variable scope
+ */
+export interface VariableScopeMapping {
+  runtime: PostmanVariableScope;
+  env: PostmanVariableScope;
+  globals: PostmanVariableScope;
+}
+
+export const DEFAULT_VARIABLE_SCOPES: VariableScopeMapping = {
+  runtime: 'collectionVariables',
+  env: 'environment',
+  globals: 'globals',
+};
+
+/**
+ * Build the Bruno → Postman variable API mapping table for a scope mapping
+ * @param scopes - Postman scope of each Bruno scope
+ * @returns Postman method for each Bruno variable method
+ */
+export function getVariableApiMappings(
+  scopes: VariableScopeMapping = DEFAULT_VARIABLE_SCOPES
+): Record<string, string> {
+  return {
+    'bru.setVar': `pm.${scopes.runtime}.set`,
+    'bru.getVar': `pm.${scopes.runtime}.get`,
+    'bru.hasVar': `pm.${scopes.runtime}.has`,
+    'bru.deleteVar': `pm.${scopes.runtime}.unset`,
+    'bru.setEnvVar': `pm.${scopes.env}.set`,
+    'bru.getEnvVar': `pm.${scopes.env}.get`,
+    // Postman scripts cannot read the process environment
+    'bru.getProcessEnv': `pm.${scopes.env}.get`,
+    'bru.setGlobalEnvVar': `pm.${scopes.globals}.set`,
+    'bru.getGlobalEnvVar': `pm.${scopes.globals}.get`,
+  };
+}
+
+/**
+ * Warning line for scripts that read the process environment
+ * @param scopes - Postman scope of each Bruno scope
+ */
+export function getProcessEnvWarning(
+  scopes: VariableScopeMapping = DEFAULT_VARIABLE_SCOPES
+): string {
+  return `// WARNING: data loss - Postman has no process environment, bru.getProcessEnv() values are read from pm.${scopes.env}`;
+}
+
+/**
+ * Parse a scope mapping from the command line, e.g. "runtime=variables,env=environment"
+ * Bruno scopes that are not listed keep their default Postman scope.
+ * @param value - Comma-separated `brunoScope=postmanScope` pairs
+ * @returns The complete scope mapping
+ * @throws Error on an unknown Bruno or Postman scope
+ */
+export function parseVariableScopeMapping(value: string): VariableScopeMapping {
+  const scopes: VariableScopeMapping = { ...DEFAULT_VARIABLE_SCOPES };
+
+  for (const pair of value.split(',')) {
+    if (!pair.trim()) continue;
+
+    const [brunoScope, postmanScope] = pair.split('=').map((part) => part.trim());
+    if (!Object.keys(DEFAULT_VARIABLE_SCOPES).includes(brunoScope)) {
+      throw new Error(
+        `Invalid variable scope "${brunoScope}": expected one of ${Object.keys(scopes).join(', ')}`
+      );
+    }
+    if (!POSTMAN_VARIABLE_SCOPES.includes(postmanScope as PostmanVariableScope)) {
+      throw new Error(
+        `Invalid Postman scope "${postmanScope}": expected one of ${POSTMAN_VARIABLE_SCOPES.join(', ')}`
+      );
+    }
+
+    scopes[brunoScope as keyof VariableScopeMapping] = postmanScope as PostmanVariableScope;
+  }
+
+  return scopes;
+}
@@ -1,57 +1,28 @@
 import { BrunoEnvironment, BrunoVariable } from '../types/bruno.types.js';
+import { splitSections, readMultilineValue } from './brunoTokenizer.js';
 
 /**
  * Parse a Bruno environment file content into a BrunoEnvironment object
  * @param content - The content of the .bru file
  * @returns Parsed BrunoEnvironment
- * @throws Error if the file is invalid
+ * @throws BrunoParseError if the file is invalid
  */
 export function parseBrunoEnvironmentFile(content: string): BrunoEnvironment {
-  const lines = content.split('\n');
-  let state: 'IDLE' | 'IN_VARS' = 'IDLE';
-  let braceDepth = 0;
-  
   // Collected data
   const variables: BrunoVariable[] = [];
   const name = 'Unknown Environment'; // Name is usually inferred from filename, but we return a structure that fits
 
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    const trimmed = line.trim();
+  for (const { name: sectionName, lines } of splitSections(content)) {
+    if (sectionName !== 'vars') continue;
 
-    // Skip empty lines and comments in IDLE state
-    if (state === 'IDLE' && (!trimmed || trimmed.startsWith('//'))) {
-      continue;
-    }
-
-    // Detect vars section start
-    if (trimmed === 'vars {' && braceDepth === 0) {
-      state = 'IN_VARS';
-      braceDepth = 1;
-      continue;
-    }
-
-    // Track brace depth
-    if (trimmed.includes('{')) {
-      braceDepth += (trimmed.match(/{/g) || []).length;
-    }
-    if (trimmed.includes('}')) {
-      braceDepth -= (trimmed.match(/}/g) || []).length;
-    }
-
-    // Section end
-    if (braceDepth === 0 && state === 'IN_VARS') {
-      state = 'IDLE';
-      continue;
-    }
-
-    // Parse vars content
-    if (state === 'IN_VARS' && braceDepth > 0) {
+    for (let index = 0; index < lines.length; index++) {
       // Format: key: value
       // or secret key: value
-      
+      // or key: ''' followed by a multiline value and a closing '''
+      const trimmed = lines[index].trim();
+
       // Skip braces on their own lines if any
-      if (trimmed === '{' || trimmed === '}') continue;
+      if (!trimmed || trimmed === '{' || trimmed === '}') continue;
 
       let isSecret = false;
       let lineToParse = trimmed;
@@ -64,7 +35,13 @@ export function parseBrunoEnvironmentFile(content: string): BrunoEnvironment {
       const colonIndex = lineToParse.indexOf(':');
       if (colonIndex !== -1) {
         const key = lineToParse.slice(0, colonIndex).trim();
-        const value = lineToParse.slice(colonIndex + 1).trim();
+        let value = lineToParse.slice(colonIndex + 1).trim();
+
+        const multilineValue = value === "'''" ? readMultilineValue(lines, index + 1) : undefined;
+        if (multilineValue) {
+          value = multilineValue.value;
+          index = multilineValue.end;
+        }
 
         variables.push({
           key,
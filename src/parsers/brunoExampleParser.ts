@@ -0,0 +1,214 @@
+import { BrunoBody, BrunoExample, BrunoHeader, HttpMethodSchema } from '../types/bruno.types.js';
+import { BrunoParseError } from './brunoParseError.js';
+import {
+  BrunoSection,
+  getEntryLocation,
+  getSectionLocation,
+  readMultilineValue,
+  dedent,
+} from './brunoTokenizer.js';
+
+/**
+ * An entry of an example block: either `key: value` or a nested `key: { ... }` block
+ */
+interface ExampleEntry {
+  key: string;
+  value: string;
+  /** Range of the nested block content in the section lines */
+  children?: { start: number; end: number };
+}
+
+/**
+ * Parse an `example { ... }` block (Bruno 2.x saved response example)
+ *
+ * Examples nest blocks inside the section:
+ *
+ *   example {
+ *     name: Success
+ *     request: {
+ *       url: {{baseUrl}}/users/1
+ *       method: get
+ *       headers: { ... }
+ *       body:json: { ... }
+ *     }
+ *     response: {
+ *       headers: { ... }
+ *       status: { code: ..., text: ... }
+ *       body: { type: json, content: ''' ... ''' }
+ *     }
+ *   }
+ *
+ * @param section - The example section
+ * @returns Parsed BrunoExample
+ * @throws BrunoParseError if the example is invalid
+ */
+export function parseExampleSection(section: BrunoSection): BrunoExample {
+  const entries = readEntries(section, 0, section.lines.length);
+  const name = findEntry(entries, 'name')?.value;
+
+  if (!name) {
+    throw new BrunoParseError('Invalid example: name is required', getSectionLocation(section));
+  }
+
+  const example: BrunoExample = {
+    name,
+    description: findEntry(entries, 'description')?.value || undefined,
+    response: { headers: [] },
+  };
+
+  const request = findEntry(entries, 'request');
+  if (request?.children) {
+    example.request = parseExampleRequest(section, request.children);
+  }
+
+  const response = findEntry(entries, 'response');
+  if (response?.children) {
+    example.response = parseExampleResponse(section, response.children);
+  }
+
+  return example;
+}
+
+/**
+ * Parse the `request: { ... }` block of an example
+ */
+function parseExampleRequest(
+  section: BrunoSection,
+  range: { start: number; end: number }
+): NonNullable<BrunoExample['request']> {
+  const entries = readEntries(section, range.start, range.end);
+  const method = HttpMethodSchema.safeParse(findEntry(entries, 'method')?.value.toUpperCase());
+  const request: NonNullable<BrunoExample['request']> = {
+    url: findEntry(entries, 'url')?.value,
+    method: method.success ? method.data : undefined,
+    headers: readDictionary(section, findEntry(entries, 'headers')),
+    queryParams: readDictionary(section, findEntry(entries, 'params:query')),
+  };
+
+  const bodyEntry = entries.find((entry) => entry.key.startsWith('body:') && entry.children);
+  if (bodyEntry?.children) {
+    const mode = bodyEntry.key.slice('body:'.length);
+    request.body = {
+      mode: (mode === 'multipart-form' ? 'multipart' : mode) as BrunoBody['mode'],
+      content: dedent(section.lines.slice(bodyEntry.children.start, bodyEntry.children.end)),
+    };
+  }
+
+  return request;
+}
+
+/**
+ * Parse the `response: { ... }` block of an example
+ */
+function parseExampleResponse(
+  section: BrunoSection,
+  range: { start: number; end: number }
+): BrunoExample['response'] {
+  const entries = readEntries(section, range.start, range.end);
+  const response: BrunoExample['response'] = {
+    headers: readDictionary(section, findEntry(entries, 'headers')),
+  };
+
+  const status = findEntry(entries, 'status');
+  if (status?.children) {
+    const statusEntries = readEntries(section, status.children.start, status.children.end);
+    const code = findEntry(statusEntries, 'code')?.value;
+    response.code = code && /^\d+$/.test(code) ? parseInt(code, 10) : undefined;
+    response.status = findEntry(statusEntries, 'text')?.value || undefined;
+  }
+
+  const body = findEntry(entries, 'body');
+  if (body?.children) {
+    const bodyEntries = readEntries(section, body.children.start, body.children.end);
+    response.bodyType = findEntry(bodyEntries, 'type')?.value || undefined;
+    response.body = findEntry(bodyEntries, 'content')?.value;
+  }
+
+  return response;
+}
+
+/**
+ * Read the entries of a nested dictionary block such as `headers: { ... }`
+ * A leading `~` on the key marks the entry as disabled.
+ */
+function readDictionary(section: BrunoSection, entry: ExampleEntry | undefined): BrunoHeader[] {
+  if (!entry?.children) {
+    return [];
+  }
+
+  return readEntries(section, entry.children.start, entry.children.end).map(({ key, value }) => {
+    const enabled = !key.startsWith('~');
+    return { key: enabled ? key : key.slice(1).trim(), value, enabled };
+  });
+}
+
+/**
+ * Read the entries between two line indexes of an example section
+ * Nested blocks end at the `}` line indented like their `key: {` line.
+ * @throws BrunoParseError on an invalid entry or an unclosed nested block
+ */
+function readEntries(section: BrunoSection, start: number, end: number): ExampleEntry[] {
+  const entries: ExampleEntry[] = [];
+  const { lines } = section;
+
+  for (let index = start; index < end; index++) {
+    const line = lines[index];
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+
+    // Nested block, e.g. `headers: {`
+    const blockMatch = trimmed.match(/^(.+?):\s*\{$/);
+    if (blockMatch) {
+      const indent = line.length - line.trimStart().length;
+      let closeIndex = index + 1;
+      while (
+        closeIndex < end &&
+        !(lines[closeIndex].trim() === '}' && lines[closeIndex].indexOf('}') === indent)
+      ) {
+        closeIndex++;
+      }
+      if (closeIndex >= end) {
+        throw new BrunoParseError('Unclosed block', getEntryLocation(section, index));
+      }
+
+      entries.push({
+        key: blockMatch[1].trim(),
+        value: '',
+        children: { start: index + 1, end: closeIndex },
+      });
+      index = closeIndex;
+      continue;
+    }
+
+    const colonIndex = trimmed.indexOf(':');
+    if (colonIndex === -1) {
+      throw new BrunoParseError('Expected a "key: value" entry', getEntryLocation(section, index));
+    }
+
+    const key = trimmed.slice(0, colonIndex).trim();
+    let value = trimmed.slice(colonIndex + 1).trim();
+
+    if (value === "'''") {
+      const multilineValue = readMultilineValue(lines.slice(0, end), index + 1);
+      if (!multilineValue) {
+        throw new BrunoParseError(
+          "Unterminated multiline value, expected a closing '''",
+          getEntryLocation(section, index)
+        );
+      }
+      value = multilineValue.value;
+      index = multilineValue.end;
+    }
+
+    entries.push({ key, value });
+  }
+
+  return entries;
+}
+
+/**
+ * Find an entry by key
+ */
+function findEntry(entries: ExampleEntry[], key: string): ExampleEntry | undefined {
+  return entries.find((entry) => entry.key === key);
+}
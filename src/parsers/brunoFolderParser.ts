@@ -0,0 +1,79 @@
+import { BrunoAuth, BrunoFolder } from '../types/bruno.types.js';
+import { BrunoParseError } from './brunoParseError.js';
+import { BrunoSection, splitSections } from './brunoTokenizer.js';
+import {
+  parseKeyValueEntries,
+  parseDocsSection,
+  parseAuthModeSection,
+  parseAuthSection,
+  resolveAuth,
+} from './brunoParser.js';
+
+/**
+ * File names holding collection- and folder-level settings
+ */
+export const FOLDER_SETTINGS_FILES = ['collection.bru', 'folder.bru'];
+
+/**
+ * Parse a Bruno collection.bru or folder.bru file into a BrunoFolder object
+ * Unlike request files, these have no method section and every section is optional.
+ * @param content - The content of the .bru file
+ * @param filePath - Path of the .bru file, reported in parse errors
+ * @returns Parsed BrunoFolder
+ * @throws BrunoParseError if the file is invalid
+ */
+export function parseBrunoFolderFile(content: string, filePath?: string): BrunoFolder {
+  try {
+    return parseFolderSections(splitSections(content));
+  } catch (error) {
+    if (error instanceof BrunoParseError && filePath) {
+      error.file = filePath;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Build a BrunoFolder from the sections of a collection.bru / folder.bru file
+ */
+function parseFolderSections(sections: BrunoSection[]): BrunoFolder {
+  const folder: BrunoFolder = {};
+  let authMode: string | undefined;
+  const authSections: BrunoAuth[] = [];
+
+  for (const section of sections) {
+    const { name: sectionName, lines } = section;
+
+    if (sectionName === 'meta') {
+      for (const { key, value } of parseKeyValueEntries(section)) {
+        if (key === 'name') {
+          folder.name = value;
+        } else if (key === 'seq') {
+          folder.seq = parseInt(value, 10);
+        }
+      }
+    } else if (sectionName === 'auth') {
+      authMode = parseAuthModeSection(section);
+    } else if (sectionName.startsWith('auth:')) {
+      authSections.push(parseAuthSection(section));
+    } else if (sectionName === 'headers') {
+      folder.headers = parseKeyValueEntries(section);
+    } else if (sectionName === 'script:pre-request') {
+      folder.preRequestScript = lines.join('\n');
+    } else if (sectionName === 'script:post-response') {
+      folder.postResponseScript = lines.join('\n');
+    } else if (sectionName === 'tests' || sectionName === 'script:test') {
+      folder.testScript = lines.join('\n');
+    } else if (sectionName === 'vars:pre-request') {
+      folder.preRequestVars = parseKeyValueEntries(section);
+    } else if (sectionName === 'vars:post-response') {
+      folder.postResponseVars = parseKeyValueEntries(section);
+    } else if (sectionName === 'docs') {
+      folder.docs = parseDocsSection(lines);
+    }
+  }
+
+  folder.auth = resolveAuth(authMode, authSections);
+
+  return folder;
+}
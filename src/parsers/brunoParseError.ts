@@ -0,0 +1,31 @@
+/**
+ * Location of a parse error in a .bru file (1-based line and column)
+ */
+export interface BrunoSourceLocation {
+  line: number;
+  column: number;
+  block?: string;
+}
+
+/**
+ * Error raised when a .bru file cannot be parsed
+ * Carries the source location so the report can point at the offending line.
+ */
+export class BrunoParseError extends Error {
+  readonly reason: string;
+  readonly line: number;
+  readonly column: number;
+  readonly block?: string;
+  file?: string;
+
+  constructor(reason: string, location: BrunoSourceLocation, file?: string) {
+    const blockInfo = location.block ? ` in block "${location.block}"` : '';
+    super(`${reason}${blockInfo} (line ${location.line}, column ${location.column})`);
+    this.name = 'BrunoParseError';
+    this.reason = reason;
+    this.line = location.line;
+    this.column = location.column;
+    this.block = location.block;
+    this.file = file;
+  }
+}
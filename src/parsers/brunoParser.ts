@@ -4,156 +4,144 @@ import {
   BrunoHeader,
   BrunoQueryParam,
   BrunoBody,
+  FormDataEntry,
+  BrunoBodyFile,
   BrunoAuth,
+  BrunoAssertion,
+  BrunoAssertionOperator,
+  BrunoAssertionOperatorSchema,
+  BrunoRequestVariable,
+  BrunoSettings,
+  BrunoExample,
   HttpMethod,
 } from '../types/bruno.types.js';
+import { BrunoParseError } from './brunoParseError.js';
+import { parseExampleSection } from './brunoExampleParser.js';
+import {
+  BrunoSection,
+  splitSections,
+  getSectionLocation,
+  getEntryLocation,
+  readMultilineValue,
+  dedent,
+} from './brunoTokenizer.js';
+
+type OAuth2GrantType = NonNullable<BrunoAuth['oauth2']>['grantType'];
+type OAuth2CredentialsPlacement = NonNullable<BrunoAuth['oauth2']>['credentialsPlacement'];
+type OAuth2TokenPlacement = NonNullable<BrunoAuth['oauth2']>['tokenPlacement'];
 
-type ParserState =
-  | 'IDLE'
-  | 'IN_META'
-  | 'IN_METHOD'
-  | 'IN_HEADERS'
-  | 'IN_QUERY_PARAMS'
-  | 'IN_PATH_PARAMS'
-  | 'IN_BODY'
-  | 'IN_AUTH'
-  | 'IN_PRE_REQUEST_SCRIPT'
-  | 'IN_TESTS'
-  | 'IN_DOCS';
+const HTTP_METHODS = ['get', 'post', 'put', 'delete', 'patch', 'head', 'options'];
 
 /**
  * Parse a Bruno file content into a BrunoRequest object
  * @param content - The content of the .bru file
+ * @param filePath - Path of the .bru file, reported in parse errors
  * @returns Parsed BrunoRequest
- * @throws Error if the file is invalid
+ * @throws BrunoParseError if the file is invalid
  */
-export function parseBrunoFile(content: string): BrunoRequest {
-  const lines = content.split('\n');
-  let state: ParserState = 'IDLE';
-  let braceDepth = 0;
-  let currentSection: string[] = [];
-  let currentSectionName = '';
+export function parseBrunoFile(content: string, filePath?: string): BrunoRequest {
+  try {
+    return parseRequestSections(splitSections(content));
+  } catch (error) {
+    if (error instanceof BrunoParseError && filePath) {
+      error.file = filePath;
+    }
+    throw error;
+  }
+}
 
+/**
+ * Build a BrunoRequest from the sections of a request file
+ */
+function parseRequestSections(sections: BrunoSection[]): BrunoRequest {
   // Collected data
   let meta: BrunoMeta | null = null;
   let method: HttpMethod | null = null;
+  let methodSection: BrunoSection | null = null;
   let url = '';
+  let authMode: string | undefined;
   const headers: BrunoHeader[] = [];
   const queryParams: BrunoQueryParam[] = [];
   const pathParams: BrunoQueryParam[] = [];
   let body: BrunoBody | undefined;
-  let auth: BrunoAuth | undefined;
+  let graphqlVariables: string | undefined;
+  const authSections: BrunoAuth[] = [];
   let preRequestScript: string | undefined;
+  let postResponseScript: string | undefined;
   let testScript: string | undefined;
+  const assertions: BrunoAssertion[] = [];
+  const preRequestVars: BrunoRequestVariable[] = [];
+  const postResponseVars: BrunoRequestVariable[] = [];
+  let settings: BrunoSettings | undefined;
+  const examples: BrunoExample[] = [];
   let docs: string | undefined;
 
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    const trimmed = line.trim();
-
-    // Skip empty lines and comments in IDLE state
-    if (state === 'IDLE' && (!trimmed || trimmed.startsWith('//'))) {
-      continue;
-    }
-
-    // Detect section start
-    if (trimmed.endsWith('{') && braceDepth === 0) {
-      const sectionName = trimmed.slice(0, -1).trim();
-      currentSectionName = sectionName;
-      currentSection = [];
-      braceDepth = 1;
-
-      // Determine state based on section name
-      if (sectionName === 'meta') {
-        state = 'IN_META';
-      } else if (['get', 'post', 'put', 'delete', 'patch', 'head', 'options'].includes(sectionName)) {
-        state = 'IN_METHOD';
-        method = sectionName.toUpperCase() as HttpMethod;
-      } else if (sectionName === 'headers') {
-        state = 'IN_HEADERS';
-      } else if (sectionName === 'params:query') {
-        state = 'IN_QUERY_PARAMS';
-      } else if (sectionName === 'params:path') {
-        state = 'IN_PATH_PARAMS';
-      } else if (sectionName.startsWith('body:')) {
-        state = 'IN_BODY';
-      } else if (sectionName.startsWith('auth:')) {
-        state = 'IN_AUTH';
-      } else if (sectionName === 'script:pre-request') {
-        state = 'IN_PRE_REQUEST_SCRIPT';
-      } else if (sectionName === 'tests' || sectionName === 'script:test') {
-        state = 'IN_TESTS';
-      } else if (sectionName === 'docs') {
-        state = 'IN_DOCS';
-      }
-      continue;
-    }
-
-    // Track brace depth
-    if (trimmed.includes('{')) {
-      braceDepth += (trimmed.match(/{/g) || []).length;
-    }
-    if (trimmed.includes('}')) {
-      braceDepth -= (trimmed.match(/}/g) || []).length;
-    }
-
-    // Section end
-    if (braceDepth === 0 && state !== 'IDLE') {
-      // Process collected section
-      switch (state) {
-        case 'IN_META':
-          meta = parseMetaSection(currentSection);
-          break;
-        case 'IN_METHOD':
-          url = parseMethodSection(currentSection);
-          break;
-        case 'IN_HEADERS':
-          headers.push(...parseHeadersSection(currentSection));
-          break;
-        case 'IN_QUERY_PARAMS':
-          queryParams.push(...parseQueryParamsSection(currentSection));
-          break;
-        case 'IN_PATH_PARAMS':
-          pathParams.push(...parseQueryParamsSection(currentSection));
-          break;
-        case 'IN_BODY':
-          body = parseBodySection(currentSection, currentSectionName);
-          break;
-        case 'IN_AUTH':
-          auth = parseAuthSection(currentSection, currentSectionName);
-          break;
-        case 'IN_PRE_REQUEST_SCRIPT':
-          preRequestScript = currentSection.join('\n');
-          break;
-        case 'IN_TESTS':
-          testScript = currentSection.join('\n');
-          break;
-        case 'IN_DOCS':
-          docs = currentSection.join('\n');
-          break;
-      }
-
-      state = 'IDLE';
-      currentSection = [];
-      currentSectionName = '';
-      continue;
-    }
-
-    // Collect section content
-    if (state !== 'IDLE' && braceDepth > 0) {
-      currentSection.push(line);
+  for (const section of sections) {
+    const { name: sectionName, lines } = section;
+
+    if (sectionName === 'meta') {
+      meta = parseMetaSection(section);
+    } else if (HTTP_METHODS.includes(sectionName)) {
+      method = sectionName.toUpperCase() as HttpMethod;
+      methodSection = section;
+      const methodDetails = parseMethodSection(section);
+      url = methodDetails.url;
+      authMode = methodDetails.authMode ?? authMode;
+    } else if (sectionName === 'headers') {
+      headers.push(...parseHeadersSection(section));
+    } else if (sectionName === 'params:query') {
+      queryParams.push(...parseQueryParamsSection(section));
+    } else if (sectionName === 'params:path') {
+      pathParams.push(...parseQueryParamsSection(section));
+    } else if (sectionName === 'body:graphql:vars') {
+      graphqlVariables = lines.join('\n');
+    } else if (sectionName.startsWith('body:')) {
+      body = parseBodySection(section);
+    } else if (sectionName === 'auth') {
+      authMode = parseAuthModeSection(section) ?? authMode;
+    } else if (sectionName.startsWith('auth:')) {
+      authSections.push(parseAuthSection(section));
+    } else if (sectionName === 'script:pre-request') {
+      preRequestScript = lines.join('\n');
+    } else if (sectionName === 'script:post-response') {
+      postResponseScript = lines.join('\n');
+    } else if (sectionName === 'tests' || sectionName === 'script:test') {
+      testScript = lines.join('\n');
+    } else if (sectionName === 'vars:pre-request') {
+      preRequestVars.push(...parseKeyValueEntries(section));
+    } else if (sectionName === 'vars:post-response') {
+      postResponseVars.push(...parseKeyValueEntries(section));
+    } else if (sectionName === 'assert') {
+      assertions.push(...parseAssertSection(section));
+    } else if (sectionName === 'example') {
+      examples.push(parseExampleSection(section));
+    } else if (sectionName === 'settings') {
+      settings = parseSettingsSection(section);
+    } else if (sectionName === 'docs') {
+      docs = parseDocsSection(lines);
     }
   }
 
   // Validation
   if (!meta) {
-    throw new Error('Invalid Bruno file: missing meta section');
+    throw new BrunoParseError('Invalid Bruno file: missing meta section', { line: 1, column: 1 });
   }
-  if (!method) {
-    throw new Error('Invalid Bruno file: missing HTTP method section');
+  if (!method || !methodSection) {
+    throw new BrunoParseError('Invalid Bruno file: missing HTTP method section', {
+      line: 1,
+      column: 1,
+    });
   }
   if (!url) {
-    throw new Error('Invalid Bruno file: missing URL in method section');
+    throw new BrunoParseError(
+      'Invalid Bruno file: missing URL in method section',
+      getSectionLocation(methodSection)
+    );
+  }
+
+  // GraphQL variables live in their own block but belong to the body
+  if (body?.mode === 'graphql' && graphqlVariables !== undefined) {
+    body.graphqlVariables = graphqlVariables;
   }
 
   return {
@@ -164,9 +152,15 @@ export function parseBrunoFile(content: string): BrunoRequest {
     queryParams,
     pathParams,
     body,
-    auth,
+    auth: resolveAuth(authMode, authSections),
     preRequestScript,
+    postResponseScript,
     testScript,
+    assertions,
+    preRequestVars,
+    postResponseVars,
+    settings,
+    examples,
     docs,
   };
 }
@@ -174,30 +168,26 @@ export function parseBrunoFile(content: string): BrunoRequest {
 /**
  * Parse the meta section
  */
-function parseMetaSection(lines: string[]): BrunoMeta {
+function parseMetaSection(section: BrunoSection): BrunoMeta {
   const meta: Partial<BrunoMeta> = {};
 
-  for (const line of lines) {
-    const trimmed = line.trim();
-    if (!trimmed || trimmed === '{' || trimmed === '}') continue;
-
-    const colonIndex = trimmed.indexOf(':');
-    if (colonIndex === -1) continue;
-
-    const key = trimmed.slice(0, colonIndex).trim();
-    const value = trimmed.slice(colonIndex + 1).trim();
-
+  for (const { key, value } of parseKeyValueEntries(section)) {
     if (key === 'name') {
       meta.name = value;
     } else if (key === 'type') {
       meta.type = value as 'http' | 'graphql';
     } else if (key === 'seq') {
       meta.seq = parseInt(value, 10);
+    } else if (key === 'tags') {
+      meta.tags = parseListValue(value);
     }
   }
 
   if (!meta.name || !meta.type) {
-    throw new Error('Invalid meta section: name and type are required');
+    throw new BrunoParseError(
+      'Invalid meta section: name and type are required',
+      getSectionLocation(section)
+    );
   }
 
   return meta as BrunoMeta;
@@ -206,102 +196,272 @@ function parseMetaSection(lines: string[]): BrunoMeta {
 /**
  * Parse the HTTP method section (get/post/put/delete/etc.)
  */
-function parseMethodSection(lines: string[]): string {
+function parseMethodSection(section: BrunoSection): { url: string; authMode?: string } {
   let url = '';
+  let authMode: string | undefined;
 
-  for (const line of lines) {
-    const trimmed = line.trim();
-    if (!trimmed || trimmed === '{' || trimmed === '}') continue;
-
-    const colonIndex = trimmed.indexOf(':');
-    if (colonIndex === -1) continue;
-
-    const key = trimmed.slice(0, colonIndex).trim();
-    const value = trimmed.slice(colonIndex + 1).trim();
-
+  for (const { key, value } of parseKeyValueEntries(section)) {
     if (key === 'url') {
       url = value;
+    } else if (key === 'auth') {
+      authMode = value;
     }
   }
 
-  return url;
+  return { url, authMode };
+}
+
+/**
+ * Parse the auth mode section (`auth { mode: inherit }`)
+ * @returns The declared auth mode, if any
+ */
+export function parseAuthModeSection(section: BrunoSection): string | undefined {
+  return parseKeyValueEntries(section).find((entry) => entry.key === 'mode')?.value;
+}
+
+/**
+ * Pick the effective auth from the declared mode and the parsed auth:* sections
+ * Without a mode, the last auth section wins.
+ * @param authMode - Mode from the method section or the `auth` section
+ * @param authSections - Parsed auth:* sections
+ * @returns The effective auth, if any
+ */
+export function resolveAuth(
+  authMode: string | undefined,
+  authSections: BrunoAuth[]
+): BrunoAuth | undefined {
+  if (authMode === 'inherit' || authMode === 'none') {
+    return { type: authMode };
+  }
+
+  return (
+    authSections.find((section) => section.type === authMode) ??
+    authSections[authSections.length - 1]
+  );
 }
 
 /**
  * Parse the headers section
  */
-function parseHeadersSection(lines: string[]): BrunoHeader[] {
-  const headers: BrunoHeader[] = [];
+function parseHeadersSection(section: BrunoSection): BrunoHeader[] {
+  return parseKeyValueEntries(section);
+}
+
+/**
+ * Parse query parameters or path parameters section
+ */
+function parseQueryParamsSection(section: BrunoSection): BrunoQueryParam[] {
+  return parseKeyValueEntries(section);
+}
 
-  for (const line of lines) {
-    const trimmed = line.trim();
+/**
+ * Parse `key: value` entries of a dictionary block
+ * A leading `~` on the key marks the entry as disabled, and a `'''` value
+ * spans the following lines up to the closing `'''`.
+ * @throws BrunoParseError on a line that is not a `key: value` entry
+ */
+export function parseKeyValueEntries(
+  section: BrunoSection
+): Array<{ key: string; value: string; enabled: boolean }> {
+  const entries: Array<{ key: string; value: string; enabled: boolean }> = [];
+  const { lines } = section;
+
+  for (let index = 0; index < lines.length; index++) {
+    const trimmed = lines[index].trim();
     if (!trimmed || trimmed === '{' || trimmed === '}') continue;
 
     const colonIndex = trimmed.indexOf(':');
-    if (colonIndex === -1) continue;
+    if (colonIndex === -1) {
+      throw new BrunoParseError('Expected a "key: value" entry', getEntryLocation(section, index));
+    }
 
-    const key = trimmed.slice(0, colonIndex).trim();
-    const value = trimmed.slice(colonIndex + 1).trim();
+    const rawKey = trimmed.slice(0, colonIndex).trim();
+    let value = trimmed.slice(colonIndex + 1).trim();
+    const enabled = !rawKey.startsWith('~');
+
+    if (value === "'''") {
+      const multilineValue = readMultilineValue(lines, index + 1);
+      if (!multilineValue) {
+        throw new BrunoParseError(
+          "Unterminated multiline value, expected a closing '''",
+          getEntryLocation(section, index)
+        );
+      }
+      value = multilineValue.value;
+      index = multilineValue.end;
+    } else if (value === '[') {
+      // One item per line list, e.g. `tags: [` ... `]`, normalized to the inline form
+      const end = lines.findIndex((line, lineIndex) => lineIndex > index && line.trim() === ']');
+      if (end === -1) {
+        throw new BrunoParseError(
+          'Unterminated list value, expected a closing "]"',
+          getEntryLocation(section, index)
+        );
+      }
+      const items = lines.slice(index + 1, end).map((line) => line.trim());
+      value = `[${items.filter((item) => item).join(', ')}]`;
+      index = end;
+    }
 
-    headers.push({
-      key,
+    entries.push({
+      key: enabled ? rawKey : rawKey.slice(1).trim(),
       value,
-      enabled: true,
+      enabled,
     });
   }
 
-  return headers;
+  return entries;
 }
 
 /**
- * Parse query parameters or path parameters section
+ * Parse a list value such as `[smoke, billing]` (brackets are optional)
  */
-function parseQueryParamsSection(lines: string[]): BrunoQueryParam[] {
-  const params: BrunoQueryParam[] = [];
+function parseListValue(value: string): string[] {
+  return value
+    .replace(/^\[|\]$/g, '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item);
+}
 
-  for (const line of lines) {
-    const trimmed = line.trim();
-    if (!trimmed || trimmed === '{' || trimmed === '}') continue;
+/**
+ * Parse the settings section
+ * Unknown settings and values that are not booleans or numbers are ignored.
+ */
+function parseSettingsSection(section: BrunoSection): BrunoSettings {
+  const settings: BrunoSettings = {};
+
+  for (const { key, value } of parseKeyValueEntries(section)) {
+    if ((key === 'encodeUrl' || key === 'followRedirects') && /^(true|false)$/.test(value)) {
+      settings[key] = value === 'true';
+    } else if ((key === 'maxRedirects' || key === 'timeout') && /^\d+$/.test(value)) {
+      settings[key] = parseInt(value, 10);
+    }
+  }
 
-    const colonIndex = trimmed.indexOf(':');
-    if (colonIndex === -1) continue;
+  return settings;
+}
 
-    const key = trimmed.slice(0, colonIndex).trim();
-    const value = trimmed.slice(colonIndex + 1).trim();
+/**
+ * Parse the docs section
+ * The block indentation is removed so the Markdown renders as written
+ * (indented lines would otherwise be treated as code blocks).
+ */
+export function parseDocsSection(lines: string[]): string {
+  return dedent(lines).trim();
+}
 
-    params.push({
-      key,
-      value,
-      enabled: true,
-    });
-  }
+/**
+ * Parse the assert section
+ * Each entry has the form `target: operator value`, e.g. `res.status: eq 200`.
+ * A value without a known operator is treated as an equality check.
+ */
+function parseAssertSection(section: BrunoSection): BrunoAssertion[] {
+  return parseKeyValueEntries(section).map(({ key, value, enabled }) => {
+    const spaceIndex = value.indexOf(' ');
+    const firstWord = spaceIndex === -1 ? value : value.slice(0, spaceIndex);
+    const operatorResult = BrunoAssertionOperatorSchema.safeParse(firstWord);
+
+    if (!operatorResult.success) {
+      return { target: key, operator: 'eq' as BrunoAssertionOperator, value, enabled };
+    }
 
-  return params;
+    return {
+      target: key,
+      operator: operatorResult.data,
+      value: spaceIndex === -1 ? '' : value.slice(spaceIndex + 1).trim(),
+      enabled,
+    };
+  });
 }
 
 /**
- * Parse body section (body:json, body:xml, body:text, etc.)
+ * Parse body section (body:json, body:xml, body:text, body:graphql, etc.)
  */
-function parseBodySection(lines: string[], sectionName: string): BrunoBody {
-  const modeMatch = sectionName.match(/body:(\w+)/);
-  const mode = modeMatch ? modeMatch[1] : 'none';
-
-  // Simply join all lines as content
-  // The section delimiter braces are already filtered out by the main parser
-  // (only lines with braceDepth > 0 are included)
+function parseBodySection(section: BrunoSection): BrunoBody {
+  const { name: sectionName, lines } = section;
+  const modeMatch = sectionName.match(/body:([\w-]+)/);
+  const sectionMode = modeMatch ? modeMatch[1] : 'none';
+  // Bruno names the multipart block `body:multipart-form`
+  const mode = sectionMode === 'multipart-form' ? 'multipart' : sectionMode;
+
+  // The tokenizer already removed the block delimiter lines, so the content is
+  // the raw block lines (braces inside JSON or scripts are kept)
   const content = lines.join('\n');
 
-  return {
+  const body: BrunoBody = {
     mode: mode as BrunoBody['mode'],
     content,
   };
+
+  // Form bodies are dictionaries, parse them into structured entries
+  if (mode === 'multipart' || mode === 'form-urlencoded') {
+    body.formData = parseFormDataEntries(section);
+  }
+
+  if (mode === 'file') {
+    body.files = parseBodyFileEntries(section);
+  }
+
+  return body;
 }
 
 /**
- * Parse authentication section (auth:basic, auth:bearer, auth:apikey)
+ * Parse the entries of a multipart-form or form-urlencoded body
+ * File fields use the `@file(path)` syntax, with `|` separating multiple files.
  */
-function parseAuthSection(lines: string[], sectionName: string): BrunoAuth {
-  const typeMatch = sectionName.match(/auth:(\w+)/);
+function parseFormDataEntries(section: BrunoSection): FormDataEntry[] {
+  const entries: FormDataEntry[] = [];
+
+  for (const { key, value, enabled } of parseKeyValueEntries(section)) {
+    const fileMatch = value.match(/^@file\((.*)\)$/);
+
+    if (!fileMatch) {
+      entries.push({ key, value, type: 'text', enabled });
+      continue;
+    }
+
+    const filePaths = fileMatch[1]
+      .split('|')
+      .map((filePath) => filePath.trim())
+      .filter((filePath) => filePath);
+    for (const filePath of filePaths) {
+      entries.push({ key, value: filePath, type: 'file', enabled });
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Parse the entries of a body:file block
+ * Each entry has the form `file: @file(path) @contentType(type)`, and only the
+ * entry without a leading `~` is sent.
+ */
+function parseBodyFileEntries(section: BrunoSection): BrunoBodyFile[] {
+  const files: BrunoBodyFile[] = [];
+
+  for (const { value, enabled } of parseKeyValueEntries(section)) {
+    const fileMatch = value.match(/@file\((.*?)\)/);
+    if (!fileMatch) continue;
+
+    const contentTypeMatch = value.match(/@contentType\((.*?)\)/);
+    files.push({
+      filePath: fileMatch[1].trim(),
+      contentType: contentTypeMatch?.[1].trim() || undefined,
+      selected: enabled,
+    });
+  }
+
+  return files;
+}
+
+/**
+ * Parse authentication section (auth:basic, auth:bearer, auth:apikey, auth:oauth2,
+ * auth:awsv4, auth:digest, auth:ntlm, auth:wsse)
+ */
+export function parseAuthSection(section: BrunoSection): BrunoAuth {
+  const typeMatch = section.name.match(/auth:(\w+)/);
   const type = typeMatch ? typeMatch[1] : 'none';
 
   const auth: BrunoAuth = {
@@ -310,15 +470,7 @@ function parseAuthSection(lines: string[], sectionName: string): BrunoAuth {
 
   // Parse auth details
   const details: Record<string, string> = {};
-  for (const line of lines) {
-    const trimmed = line.trim();
-    if (!trimmed || trimmed === '{' || trimmed === '}') continue;
-
-    const colonIndex = trimmed.indexOf(':');
-    if (colonIndex === -1) continue;
-
-    const key = trimmed.slice(0, colonIndex).trim();
-    const value = trimmed.slice(colonIndex + 1).trim();
+  for (const { key, value } of parseKeyValueEntries(section)) {
     details[key] = value;
   }
 
@@ -338,6 +490,48 @@ function parseAuthSection(lines: string[], sectionName: string): BrunoAuth {
       value: details.value || '',
       in: (details.in as 'header' | 'query') || 'header',
     };
+  } else if (type === 'oauth2') {
+    auth.oauth2 = {
+      grantType: (details.grant_type as OAuth2GrantType) || 'authorization_code',
+      accessTokenUrl: details.access_token_url || '',
+      authorizationUrl: details.authorization_url || undefined,
+      callbackUrl: details.callback_url || undefined,
+      clientId: details.client_id || '',
+      clientSecret: details.client_secret || undefined,
+      scope: details.scope || undefined,
+      state: details.state || undefined,
+      username: details.username || undefined,
+      password: details.password || undefined,
+      pkce: details.pkce === 'true',
+      credentialsPlacement:
+        (details.credentials_placement as OAuth2CredentialsPlacement) || undefined,
+      tokenPlacement: (details.token_placement as OAuth2TokenPlacement) || undefined,
+    };
+  } else if (type === 'awsv4') {
+    auth.awsv4 = {
+      accessKeyId: details.accessKeyId || '',
+      secretAccessKey: details.secretAccessKey || '',
+      sessionToken: details.sessionToken || undefined,
+      service: details.service || '',
+      region: details.region || '',
+      profileName: details.profileName || undefined,
+    };
+  } else if (type === 'digest') {
+    auth.digest = {
+      username: details.username || '',
+      password: details.password || '',
+    };
+  } else if (type === 'ntlm') {
+    auth.ntlm = {
+      username: details.username || '',
+      password: details.password || '',
+      domain: details.domain || undefined,
+    };
+  } else if (type === 'wsse') {
+    auth.wsse = {
+      username: details.username || '',
+      password: details.password || '',
+    };
   }
 
   return auth;
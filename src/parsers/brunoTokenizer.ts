@@ -0,0 +1,259 @@
+import { BrunoParseError, BrunoSourceLocation } from './brunoParseError.js';
+
+/**
+ * Tokenizer for the .bru block format
+ *
+ * A .bru file is a sequence of top-level blocks, either `name { ... }`
+ * (dictionaries, scripts, bodies, docs) or `name [ ... ]` (lists such as
+ * `vars:secret`). Block content is indented, so a block ends at the first
+ * closing delimiter that is not indented past its header: braces inside
+ * JSON strings or script regexes never close a block, and neither does a
+ * line inside a multiline `'''` value.
+ *
+ * Content that is not indented is still accepted. Closing delimiters are then
+ * matched against the brackets of the content, ignoring quoted strings and
+ * `//` comments.
+ */
+
+/**
+ * A top-level block of a .bru file, e.g. `headers { ... }`
+ */
+export interface BrunoSection {
+  name: string;
+  /** 1-based line of the block header; content starts on the next line */
+  line: number;
+  /** 1-based column of the block header */
+  column: number;
+  lines: string[];
+}
+
+/**
+ * Block header: `name {` or `name [`, or an empty one-line block `name {}`
+ */
+const BLOCK_HEADER = /^([^\s{}[\]]+)\s*([{[])\s*([}\]])?$/;
+
+/**
+ * Start of a multiline value in a dictionary entry, e.g. `description: '''`
+ */
+const MULTILINE_VALUE_START = /^[^:]+:\s*'''$/;
+
+const CLOSING_DELIMITERS: Record<string, string> = { '{': '}', '[': ']' };
+
+/**
+ * Scanner state carried across the lines of a block
+ */
+interface ContentState {
+  /** Bracket depth of the content, outside of quoted strings and comments */
+  depth: number;
+  /** Open template literal, which may span lines */
+  inTemplate: boolean;
+  /** Inside a multiline `'''` value */
+  inMultilineValue: boolean;
+  /** Every content line so far is indented past the block header */
+  indented: boolean;
+}
+
+/**
+ * Split .bru file content into its top-level sections
+ * @param content - The content of the .bru file
+ * @returns Sections in file order, with the delimiter lines removed
+ * @throws BrunoParseError on content outside of a block or an unclosed block
+ */
+export function splitSections(content: string): BrunoSection[] {
+  const lines = content.split(/\r?\n/);
+  const sections: BrunoSection[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+    const trimmed = line.trim();
+
+    // Skip empty lines and comments between sections
+    if (!trimmed || trimmed.startsWith('//')) {
+      index++;
+      continue;
+    }
+
+    const header = trimmed.match(BLOCK_HEADER);
+    if (!header) {
+      throw new BrunoParseError('Unexpected content outside of a block', {
+        line: index + 1,
+        column: getColumn(line),
+      });
+    }
+
+    const [, name, opening, inlineClosing] = header;
+    const closing = CLOSING_DELIMITERS[opening];
+    const section: BrunoSection = { name, line: index + 1, column: getColumn(line), lines: [] };
+
+    if (inlineClosing) {
+      if (inlineClosing !== closing) {
+        throw new BrunoParseError(
+          `Expected "${closing}" to close the block`,
+          getSectionLocation(section)
+        );
+      }
+      sections.push(section);
+      index++;
+      continue;
+    }
+
+    index = readBlockContent(lines, index + 1, section, opening);
+    sections.push(section);
+  }
+
+  return sections;
+}
+
+/**
+ * Collect the content lines of a block into its section
+ * @param lines - All lines of the file
+ * @param start - Index of the first content line
+ * @param section - Section to fill
+ * @param opening - Opening delimiter of the block
+ * @returns Index of the line following the closing delimiter
+ * @throws BrunoParseError if the block is never closed
+ */
+function readBlockContent(
+  lines: string[],
+  start: number,
+  section: BrunoSection,
+  opening: string
+): number {
+  const closing = CLOSING_DELIMITERS[opening];
+  const headerIndent = section.column - 1;
+  const state: ContentState = {
+    depth: 0,
+    inTemplate: false,
+    inMultilineValue: false,
+    indented: true,
+  };
+
+  for (let index = start; index < lines.length; index++) {
+    const line = lines[index];
+    const trimmed = line.trim();
+
+    if (state.inMultilineValue) {
+      state.inMultilineValue = trimmed !== "'''";
+      section.lines.push(line);
+      continue;
+    }
+
+    const indent = getColumn(line) - 1;
+    if (trimmed && indent <= headerIndent) {
+      if (trimmed === closing && (state.indented || state.depth <= 0)) {
+        return index + 1;
+      }
+      state.indented = false;
+    }
+
+    section.lines.push(line);
+    state.inMultilineValue = MULTILINE_VALUE_START.test(trimmed);
+    scanBrackets(trimmed, opening, state);
+  }
+
+  throw new BrunoParseError('Unclosed block', getSectionLocation(section));
+}
+
+/**
+ * Update the bracket depth with the delimiters of a content line,
+ * skipping quoted strings and `//` comments
+ */
+function scanBrackets(line: string, opening: string, state: ContentState): void {
+  const closing = CLOSING_DELIMITERS[opening];
+  let quote: string | null = state.inTemplate ? '`' : null;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (quote) {
+      if (char === '\\') {
+        i++;
+      } else if (char === quote) {
+        quote = null;
+      }
+      continue;
+    }
+
+    if (char === '"' || char === "'" || char === '`') {
+      quote = char;
+    } else if (char === '/' && line[i + 1] === '/') {
+      break;
+    } else if (char === opening) {
+      state.depth++;
+    } else if (char === closing) {
+      state.depth--;
+    }
+  }
+
+  // Only template literals span lines, an unterminated quote ends with the line
+  state.inTemplate = quote === '`';
+}
+
+/**
+ * Read a multiline `'''` value of a dictionary entry
+ * @param lines - Content lines of the block
+ * @param start - Index of the first line after the opening `'''`
+ * @returns The value un-indented against the opening line and the index of
+ *   the closing `'''` line, or undefined if the value is never closed
+ */
+export function readMultilineValue(
+  lines: string[],
+  start: number
+): { value: string; end: number } | undefined {
+  const openerIndent = start > 0 ? getColumn(lines[start - 1]) - 1 : -1;
+
+  for (let index = start; index < lines.length; index++) {
+    if (lines[index].trim() === "'''") {
+      return { value: dedent(lines.slice(start, index), openerIndent), end: index };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Remove the indentation shared by all non-empty lines
+ * @param lines - Lines to un-indent
+ * @param parentIndent - Indentation of the line opening the value: lines that
+ *   are not indented past it are kept as is instead of lowering the indentation
+ * @returns The un-indented lines joined with newlines
+ */
+export function dedent(lines: string[], parentIndent = -1): string {
+  const indents = lines
+    .filter((line) => line.trim())
+    .map((line) => getColumn(line) - 1)
+    .filter((lineIndent) => lineIndent > parentIndent);
+  const indent = indents.length > 0 ? Math.min(...indents) : 0;
+
+  return lines
+    .map((line) => line.slice(Math.min(indent, getColumn(line) - 1)).trimEnd())
+    .join('\n');
+}
+
+/**
+ * Location of a section header, for errors about the whole block
+ */
+export function getSectionLocation(section: BrunoSection): BrunoSourceLocation {
+  return { line: section.line, column: section.column, block: section.name };
+}
+
+/**
+ * Location of a line inside a section, for errors about a single entry
+ * @param section - The section holding the line
+ * @param index - Index of the line in `section.lines`
+ */
+export function getEntryLocation(section: BrunoSection, index: number): BrunoSourceLocation {
+  return {
+    line: section.line + 1 + index,
+    column: getColumn(section.lines[index]),
+    block: section.name,
+  };
+}
+
+/**
+ * 1-based column of the first non-whitespace character of a line
+ */
+function getColumn(line: string): number {
+  return line.length - line.trimStart().length + 1;
+}
@@ -17,6 +17,7 @@ export const BrunoMetaSchema = z.object({
   name: z.string(),
   type: z.enum(['http', 'graphql']),
   seq: z.number().optional(),
+  tags: z.array(z.string()).optional(),
 });
 export type BrunoMeta = z.infer<typeof BrunoMetaSchema>;
 
@@ -40,6 +41,7 @@ export type BrunoQueryParam = z.infer<typeof BrunoQueryParamSchema>;
 export const BrunoPathParamSchema = z.object({
   key: z.string(),
   value: z.string(),
+  enabled: z.boolean().default(true),
 });
 export type BrunoPathParam = z.infer<typeof BrunoPathParamSchema>;
 
@@ -52,17 +54,38 @@ export const FormDataEntrySchema = z.object({
 });
 export type FormDataEntry = z.infer<typeof FormDataEntrySchema>;
 
+// Bruno Body File (body:file entry)
+export const BrunoBodyFileSchema = z.object({
+  filePath: z.string(),
+  contentType: z.string().optional(),
+  selected: z.boolean().default(true),
+});
+export type BrunoBodyFile = z.infer<typeof BrunoBodyFileSchema>;
+
 // Bruno Body
 export const BrunoBodySchema = z.object({
-  mode: z.enum(['json', 'xml', 'text', 'multipart', 'form-urlencoded', 'none']),
+  mode: z.enum(['json', 'xml', 'text', 'graphql', 'multipart', 'form-urlencoded', 'file', 'none']),
   content: z.string(),
+  graphqlVariables: z.string().optional(),
   formData: z.array(FormDataEntrySchema).optional(),
+  files: z.array(BrunoBodyFileSchema).optional(),
 });
 export type BrunoBody = z.infer<typeof BrunoBodySchema>;
 
 // Bruno Auth
 export const BrunoAuthSchema = z.object({
-  type: z.enum(['none', 'basic', 'bearer', 'apikey', 'oauth2']),
+  type: z.enum([
+    'none',
+    'inherit',
+    'basic',
+    'bearer',
+    'apikey',
+    'oauth2',
+    'awsv4',
+    'digest',
+    'ntlm',
+    'wsse',
+  ]),
   basic: z
     .object({
       username: z.string(),
@@ -81,9 +104,137 @@ export const BrunoAuthSchema = z.object({
       in: z.enum(['header', 'query']),
     })
     .optional(),
+  oauth2: z
+    .object({
+      grantType: z.enum(['client_credentials', 'password', 'authorization_code']),
+      accessTokenUrl: z.string(),
+      authorizationUrl: z.string().optional(),
+      callbackUrl: z.string().optional(),
+      clientId: z.string(),
+      clientSecret: z.string().optional(),
+      scope: z.string().optional(),
+      state: z.string().optional(),
+      username: z.string().optional(),
+      password: z.string().optional(),
+      pkce: z.boolean().default(false),
+      credentialsPlacement: z.enum(['body', 'basic_auth_header']).optional(),
+      tokenPlacement: z.enum(['header', 'url']).optional(),
+    })
+    .optional(),
+  awsv4: z
+    .object({
+      accessKeyId: z.string(),
+      secretAccessKey: z.string(),
+      sessionToken: z.string().optional(),
+      service: z.string(),
+      region: z.string(),
+      profileName: z.string().optional(),
+    })
+    .optional(),
+  digest: z
+    .object({
+      username: z.string(),
+      password: z.string(),
+    })
+    .optional(),
+  ntlm: z
+    .object({
+      username: z.string(),
+      password: z.string(),
+      domain: z.string().optional(),
+    })
+    .optional(),
+  wsse: z
+    .object({
+      username: z.string(),
+      password: z.string(),
+    })
+    .optional(),
 });
 export type BrunoAuth = z.infer<typeof BrunoAuthSchema>;
 
+// Bruno Assertion Operator
+export const BrunoAssertionOperatorSchema = z.enum([
+  'eq',
+  'neq',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'in',
+  'notIn',
+  'contains',
+  'notContains',
+  'length',
+  'matches',
+  'notMatches',
+  'startsWith',
+  'endsWith',
+  'between',
+  'isEmpty',
+  'isNotEmpty',
+  'isNull',
+  'isUndefined',
+  'isDefined',
+  'isTruthy',
+  'isFalsy',
+  'isJson',
+  'isNumber',
+  'isString',
+  'isBoolean',
+  'isArray',
+]);
+export type BrunoAssertionOperator = z.infer<typeof BrunoAssertionOperatorSchema>;
+
+// Bruno Assertion
+export const BrunoAssertionSchema = z.object({
+  target: z.string(),
+  operator: BrunoAssertionOperatorSchema,
+  value: z.string(),
+  enabled: z.boolean().default(true),
+});
+export type BrunoAssertion = z.infer<typeof BrunoAssertionSchema>;
+
+// Bruno Request Variable (vars:pre-request / vars:post-response)
+export const BrunoRequestVariableSchema = z.object({
+  key: z.string(),
+  value: z.string(),
+  enabled: z.boolean().default(true),
+});
+export type BrunoRequestVariable = z.infer<typeof BrunoRequestVariableSchema>;
+
+// Bruno Request Settings (settings block)
+export const BrunoSettingsSchema = z.object({
+  encodeUrl: z.boolean().optional(),
+  followRedirects: z.boolean().optional(),
+  maxRedirects: z.number().optional(),
+  timeout: z.number().optional(),
+});
+export type BrunoSettings = z.infer<typeof BrunoSettingsSchema>;
+
+// Bruno Example (saved response example)
+export const BrunoExampleSchema = z.object({
+  name: z.string(),
+  description: z.string().optional(),
+  request: z
+    .object({
+      url: z.string().optional(),
+      method: HttpMethodSchema.optional(),
+      headers: z.array(BrunoHeaderSchema).default([]),
+      queryParams: z.array(BrunoQueryParamSchema).default([]),
+      body: BrunoBodySchema.optional(),
+    })
+    .optional(),
+  response: z.object({
+    code: z.number().optional(),
+    status: z.string().optional(),
+    headers: z.array(BrunoHeaderSchema).default([]),
+    bodyType: z.string().optional(),
+    body: z.string().optional(),
+  }),
+});
+export type BrunoExample = z.infer<typeof BrunoExampleSchema>;
+
 // Bruno Request
 export const BrunoRequestSchema = z.object({
   meta: BrunoMetaSchema,
@@ -95,11 +246,32 @@ export const BrunoRequestSchema = z.object({
   body: BrunoBodySchema.optional(),
   auth: BrunoAuthSchema.optional(),
   preRequestScript: z.string().optional(),
+  postResponseScript: z.string().optional(),
   testScript: z.string().optional(),
+  assertions: z.array(BrunoAssertionSchema).optional(),
+  preRequestVars: z.array(BrunoRequestVariableSchema).optional(),
+  postResponseVars: z.array(BrunoRequestVariableSchema).optional(),
+  settings: BrunoSettingsSchema.optional(),
+  examples: z.array(BrunoExampleSchema).optional(),
   docs: z.string().optional(),
 });
 export type BrunoRequest = z.infer<typeof BrunoRequestSchema>;
 
+// Bruno Folder (collection.bru / folder.bru)
+export const BrunoFolderSchema = z.object({
+  name: z.string().optional(),
+  seq: z.number().optional(),
+  auth: BrunoAuthSchema.optional(),
+  headers: z.array(BrunoHeaderSchema).optional(),
+  preRequestScript: z.string().optional(),
+  postResponseScript: z.string().optional(),
+  testScript: z.string().optional(),
+  preRequestVars: z.array(BrunoRequestVariableSchema).optional(),
+  postResponseVars: z.array(BrunoRequestVariableSchema).optional(),
+  docs: z.string().optional(),
+});
+export type BrunoFolder = z.infer<typeof BrunoFolderSchema>;
+
 // Bruno Variable
 export const BrunoVariableSchema = z.object({
   key: z.string(),
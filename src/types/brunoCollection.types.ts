@@ -17,6 +17,7 @@ export interface FileTreeNode {
   path: string;
   type: 'file' | 'directory';
   brunoRequest?: import('./bruno.types.js').BrunoRequest;
+  brunoFolder?: import('./bruno.types.js').BrunoFolder;
   children: FileTreeNode[];
 }
 
@@ -28,6 +29,8 @@ export interface BatchConversionReport {
   totalFiles: number;
   successCount: number;
   failureCount: number;
+  /** Requests left out by --tags / --exclude-tags, not counted in the other totals */
+  skippedCount: number;
   duration: number;
   errors: ConversionError[];
   warnings: string[];
@@ -44,6 +47,9 @@ export interface ConversionError {
   message: string;
   type: 'parse' | 'validation' | 'conversion' | 'filesystem';
   line?: number;
+  column?: number;
+  /** Source excerpt around the error location, one entry per line */
+  codeFrame?: string[];
   phase: 'read' | 'parse' | 'validate' | 'convert' | 'write';
   suggestion?: string;
   isRecoverable: boolean;
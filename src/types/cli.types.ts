@@ -81,6 +81,7 @@ export const ParsedUrlSchema = z.object({
     })
   ),
   variables: z.array(z.string()),
+  pathVariables: z.array(z.string()),
   hash: z.string().optional(),
 });
 export type ParsedUrl = z.infer<typeof ParsedUrlSchema>;
@@ -87,6 +87,12 @@ export const PostmanBodySchema = z.object({
       src: z.string(),
     })
     .optional(),
+  graphql: z
+    .object({
+      query: z.string(),
+      variables: z.string().optional(),
+    })
+    .optional(),
   options: z
     .object({
       raw: z
@@ -99,36 +105,34 @@ export const PostmanBodySchema = z.object({
 });
 export type PostmanBody = z.infer<typeof PostmanBodySchema>;
 
+// Postman Auth Attribute
+export const PostmanAuthAttributeSchema = z.object({
+  key: z.string(),
+  value: z.string(),
+  type: z.string(),
+});
+export type PostmanAuthAttribute = z.infer<typeof PostmanAuthAttributeSchema>;
+
 // Postman Auth
 export const PostmanAuthSchema = z.object({
-  type: z.enum(['noauth', 'basic', 'bearer', 'apikey', 'oauth2', 'awsv4', 'digest', 'hawk']),
-  basic: z
-    .array(
-      z.object({
-        key: z.string(),
-        value: z.string(),
-        type: z.string(),
-      })
-    )
-    .optional(),
-  bearer: z
-    .array(
-      z.object({
-        key: z.string(),
-        value: z.string(),
-        type: z.string(),
-      })
-    )
-    .optional(),
-  apikey: z
-    .array(
-      z.object({
-        key: z.string(),
-        value: z.string(),
-        type: z.string(),
-      })
-    )
-    .optional(),
+  type: z.enum([
+    'noauth',
+    'basic',
+    'bearer',
+    'apikey',
+    'oauth2',
+    'awsv4',
+    'digest',
+    'ntlm',
+    'hawk',
+  ]),
+  basic: z.array(PostmanAuthAttributeSchema).optional(),
+  bearer: z.array(PostmanAuthAttributeSchema).optional(),
+  apikey: z.array(PostmanAuthAttributeSchema).optional(),
+  oauth2: z.array(PostmanAuthAttributeSchema).optional(),
+  awsv4: z.array(PostmanAuthAttributeSchema).optional(),
+  digest: z.array(PostmanAuthAttributeSchema).optional(),
+  ntlm: z.array(PostmanAuthAttributeSchema).optional(),
 });
 export type PostmanAuth = z.infer<typeof PostmanAuthSchema>;
 
@@ -158,13 +162,28 @@ export const PostmanRequestSchema = z.object({
 });
 export type PostmanRequest = z.infer<typeof PostmanRequestSchema>;
 
+// Postman Response (saved example)
+export const PostmanResponseSchema = z.object({
+  name: z.string(),
+  originalRequest: PostmanRequestSchema.optional(),
+  status: z.string().optional(),
+  code: z.number().optional(),
+  _postman_previewlanguage: z.string().optional(),
+  header: z.array(PostmanHeaderSchema).optional(),
+  body: z.string().optional(),
+});
+export type PostmanResponse = z.infer<typeof PostmanResponseSchema>;
+
 // Postman Item (recursive)
 export type PostmanItem = {
   name: string;
   description?: string;
   item?: PostmanItem[];
   request?: PostmanRequest;
+  auth?: PostmanAuth;
   event?: PostmanEvent[];
+  variable?: PostmanVariable[];
+  response?: PostmanResponse[];
   protocolProfileBehavior?: Record<string, unknown>;
 };
 
@@ -176,7 +195,10 @@ export const PostmanItemSchema: z.ZodSchema<any> = z.lazy(() =>
     description: z.string().optional(),
     item: z.array(PostmanItemSchema).optional(),
     request: PostmanRequestSchema.optional(),
+    auth: PostmanAuthSchema.optional(),
     event: z.array(PostmanEventSchema).optional(),
+    variable: z.array(PostmanVariableSchema).optional(),
+    response: z.array(PostmanResponseSchema).optional(),
     protocolProfileBehavior: z.record(z.unknown()).optional(),
   })
 );
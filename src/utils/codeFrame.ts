@@ -0,0 +1,33 @@
+/**
+ * Build a code-frame excerpt pointing at a line and column of a source file
+ * @param content - The source file content
+ * @param line - 1-based line to highlight
+ * @param column - 1-based column to mark with a caret
+ * @param contextLines - Number of lines to show before and after the highlighted line
+ * @returns Excerpt lines, e.g. `> 7 |   url` followed by a caret line
+ */
+export function buildCodeFrame(
+  content: string,
+  line: number,
+  column: number,
+  contextLines: number = 2
+): string[] {
+  const sourceLines = content.split('\n');
+  const start = Math.max(1, line - contextLines);
+  const end = Math.min(sourceLines.length, line + contextLines);
+  const gutterWidth = String(end).length;
+  const frame: string[] = [];
+
+  for (let current = start; current <= end; current++) {
+    const marker = current === line ? '>' : ' ';
+    const lineNumber = String(current).padStart(gutterWidth);
+    const source = sourceLines[current - 1].replace(/\r$/, '');
+    frame.push(`${marker} ${lineNumber} | ${source}`.trimEnd());
+
+    if (current === line) {
+      frame.push(`  ${' '.repeat(gutterWidth)} | ${' '.repeat(Math.max(0, column - 1))}^`);
+    }
+  }
+
+  return frame;
+}
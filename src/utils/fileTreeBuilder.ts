@@ -56,3 +56,37 @@ export function buildFileTree(files: string[], rootPath: string): FileTreeNode {
 
   return root;
 }
+
+/**
+ * Sort a parsed file tree in Bruno order, recursively and in place
+ * Folders come first, ordered by the seq in their folder.bru, then requests by their
+ * meta seq. Items without a seq follow, and ties fall back to the name.
+ * @param node - Root FileTreeNode, with requests and folder settings already parsed
+ */
+export function sortFileTreeBySeq(node: FileTreeNode): void {
+  node.children.sort((a, b) => {
+    if (a.type !== b.type) {
+      return a.type === 'directory' ? -1 : 1;
+    }
+
+    const seqA = getSeq(a);
+    const seqB = getSeq(b);
+    if (seqA !== seqB) {
+      return seqA - seqB;
+    }
+
+    return a.name.localeCompare(b.name);
+  });
+
+  for (const child of node.children) {
+    sortFileTreeBySeq(child);
+  }
+}
+
+/**
+ * Get the Bruno seq of a node (Infinity when it has none)
+ */
+function getSeq(node: FileTreeNode): number {
+  const seq = node.type === 'directory' ? node.brunoFolder?.seq : node.brunoRequest?.meta.seq;
+  return seq === undefined || Number.isNaN(seq) ? Infinity : seq;
+}
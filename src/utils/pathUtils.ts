@@ -1,4 +1,4 @@
-import { normalize, extname, sep } from 'path';
+import { normalize, extname, sep, isAbsolute, resolve, relative } from 'path';
 import { stat, mkdir } from 'fs/promises';
 
 /**
@@ -22,6 +22,22 @@ export function normalizePath(path: string): string {
   return normalized;
 }
 
+/**
+ * Rewrite a relative path so it resolves to the same file from another directory
+ * Absolute paths are returned unchanged.
+ * @param path - The path, relative to `fromDir`
+ * @param fromDir - Directory the path is currently relative to
+ * @param toDir - Directory the returned path is relative to
+ * @returns The rebased path with forward slashes
+ */
+export function rebasePath(path: string, fromDir: string, toDir: string): string {
+  if (isAbsolute(path)) {
+    return path;
+  }
+
+  return relative(toDir, resolve(fromDir, path)).split(sep).join('/');
+}
+
 /**
  * Extract the file extension from a path
  * @param path - The file path
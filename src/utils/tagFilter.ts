@@ -0,0 +1,72 @@
+import { FileTreeNode } from '../types/brunoCollection.types.js';
+
+/**
+ * Tags a request must (include) or must not (exclude) carry to be converted
+ */
+export interface TagFilter {
+  include: string[];
+  exclude: string[];
+}
+
+/**
+ * Parse a comma-separated tag list from the command line
+ * @param value - Option value, e.g. "smoke,billing"
+ * @returns Trimmed, non-empty tags
+ */
+export function parseTagList(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((tag) => tag.trim())
+    .filter((tag) => tag);
+}
+
+/**
+ * Check whether a filter has any tag to match
+ */
+export function isTagFilterActive(filter: TagFilter): boolean {
+  return filter.include.length > 0 || filter.exclude.length > 0;
+}
+
+/**
+ * Check whether request tags pass a filter
+ * A request passes when it has at least one included tag (if any are given)
+ * and none of the excluded tags.
+ * @param tags - Tags of the request
+ * @param filter - Tag filter
+ * @returns True if the request should be converted
+ */
+export function matchesTagFilter(tags: string[], filter: TagFilter): boolean {
+  if (filter.include.length > 0 && !filter.include.some((tag) => tags.includes(tag))) {
+    return false;
+  }
+
+  return !filter.exclude.some((tag) => tags.includes(tag));
+}
+
+/**
+ * Remove the requests that do not pass a tag filter from a parsed file tree,
+ * recursively and in place. Folders left without requests are removed too.
+ * @param node - Directory FileTreeNode, with requests already parsed
+ * @param filter - Tag filter
+ * @returns Number of requests kept
+ */
+export function filterFileTreeByTags(node: FileTreeNode, filter: TagFilter): number {
+  let kept = 0;
+
+  node.children = node.children.filter((child) => {
+    if (child.type === 'directory') {
+      const keptInFolder = filterFileTreeByTags(child, filter);
+      kept += keptInFolder;
+      return keptInFolder > 0;
+    }
+
+    if (!child.brunoRequest || !matchesTagFilter(child.brunoRequest.meta.tags ?? [], filter)) {
+      return false;
+    }
+
+    kept++;
+    return true;
+  });
+
+  return kept;
+}
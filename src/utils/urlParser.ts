@@ -2,7 +2,7 @@ import { ParsedUrl } from '../types/cli.types.js';
 
 /**
  * Parse a URL string into components for Postman format
- * Handles variables in the format {{variableName}}
+ * Handles variables in the format {{variableName}} and path parameters in the format :name
  * @param rawUrl - The raw URL string
  * @returns Parsed URL components
  */
@@ -13,6 +13,7 @@ export function parseUrl(rawUrl: string): ParsedUrl {
     path: [],
     query: [],
     variables: [],
+    pathVariables: [],
   };
 
   // Extract all variables from the URL
@@ -24,6 +25,13 @@ export function parseUrl(rawUrl: string): ParsedUrl {
   }
   result.variables = Array.from(variables);
 
+  // Extract path parameters (`:name` segments), ignoring the query string and hash
+  const pathPart = rawUrl.split(/[?#]/)[0];
+  const pathVariableRegex = /\/:(\w+)(?=\/|$)/g;
+  while ((match = pathVariableRegex.exec(pathPart)) !== null) {
+    result.pathVariables.push(match[1]);
+  }
+
   // Try to parse the URL
   try {
     // Handle URLs that start with variables
@@ -179,12 +179,263 @@ script:test {
     expect(collection.item[0].event).toHaveLength(2);
 
     const preRequestEvent = collection.item[0].event.find((e: any) => e.listen === 'prerequest');
-    expect(preRequestEvent.script.exec.join('\n')).toContain('pm.environment.set');
+    expect(preRequestEvent.script.exec.join('\n')).toContain('pm.collectionVariables.set');
 
     const testEvent = collection.item[0].event.find((e: any) => e.listen === 'test');
     expect(testEvent.script.exec.join('\n')).toContain('pm.response.code');
   });
 
+  it('should apply collection.bru and folder.bru auth when converting a directory', async () => {
+    const request = (name: string): string => `meta {
+  name: ${name}
+  type: http
+  seq: 1
+}
+
+get {
+  url: https://api.example.com/${name}
+  auth: inherit
+}`;
+
+    await writeFile(
+      join(testDir, 'bruno.json'),
+      JSON.stringify({ version: '1', name: 'Auth API', type: 'collection' })
+    );
+    await writeFile(
+      join(testDir, 'collection.bru'),
+      `auth {
+  mode: bearer
+}
+
+auth:bearer {
+  token: {{token}}
+}`
+    );
+    await writeFile(join(testDir, 'health.bru'), request('health'));
+    await writeFile(
+      join(testDir, 'admin', 'folder.bru'),
+      `meta {
+  name: admin
+}
+
+auth {
+  mode: basic
+}
+
+auth:basic {
+  username: admin
+  password: {{adminPassword}}
+}`
+    );
+    await writeFile(join(testDir, 'admin', 'stats.bru'), request('stats'));
+
+    const outputPath = join(testDir, 'out.postman_collection.json');
+    await convertCommand(testDir, { output: outputPath });
+
+    expect(processExitSpy).not.toHaveBeenCalled();
+    const collection = JSON.parse(await readFile(outputPath));
+
+    expect(collection.auth.type).toBe('bearer');
+    const admin = collection.item.find((item: any) => item.name === 'admin');
+    expect(admin.auth.type).toBe('basic');
+    expect(admin.item).toHaveLength(1);
+    expect(admin.item[0].request.auth).toBeUndefined();
+    const health = collection.item.find((item: any) => item.name === 'health');
+    expect(health.request.auth).toBeUndefined();
+  });
+
+  it('should report parse errors with their location and a code frame', async () => {
+    await writeFile(
+      join(testDir, 'ok.bru'),
+      `meta {
+  name: Ok
+  type: http
+}
+
+get {
+  url: https://api.example.com/ok
+}`
+    );
+    await writeFile(
+      join(testDir, 'broken.bru'),
+      `meta {
+  name: Broken
+  type: http
+}
+
+headers {
+  Accept application/json
+}
+
+get {
+  url: https://api.example.com/broken
+}`
+    );
+
+    await convertCommand(testDir, { output: join(testDir, 'out.json') });
+
+    expect(processExitSpy).toHaveBeenCalledWith(1);
+    const output = consoleSpy.mock.calls.map((call) => String(call[0])).join('\n');
+    expect(output).toContain(`${join(testDir, 'broken.bru')}:7:3`);
+    expect(output).toContain('Expected a "key: value" entry in block "headers"');
+    expect(output).toContain('> 7 |   Accept application/json');
+    expect(output).toMatch(/\| {3}\^/);
+  });
+
+  it('should not count a broken folder.bru as a failed request', async () => {
+    const request = (name: string): string => `meta {
+  name: ${name}
+  type: http
+}
+
+get {
+  url: https://api.example.com/${name}
+}`;
+    await writeFile(join(testDir, 'health.bru'), request('health'));
+    await writeFile(join(testDir, 'admin', 'folder.bru'), 'meta {\n  name admin\n}');
+    await writeFile(join(testDir, 'admin', 'stats.bru'), request('stats'));
+    await writeFile(join(testDir, 'admin', 'users.bru'), request('users'));
+
+    await convertCommand(testDir, { output: join(testDir, 'out.json') });
+
+    expect(processExitSpy).toHaveBeenCalledWith(1);
+    const output = consoleSpy.mock.calls.map((call) => String(call[0])).join('\n');
+    expect(output).toContain('Total files: 3');
+    expect(output).toContain('Successful: 3 (100.0%)');
+    expect(output).toContain('Failed: 0 (0.0%)');
+    expect(output).toContain(join(testDir, 'admin', 'folder.bru'));
+  });
+
+  it('should rewrite body:file paths relative to the output and warn about missing files', async () => {
+    const collectionDir = join(testDir, 'collection');
+    await writeFile(join(collectionDir, 'assets', 'avatar.png'), 'png');
+    await writeFile(
+      join(collectionDir, 'upload.bru'),
+      `meta {
+  name: Upload
+  type: http
+}
+
+put {
+  url: https://api.example.com/avatar
+  body: file
+}
+
+body:file {
+  file: @file(assets/avatar.png) @contentType(image/png)
+}`
+    );
+    await writeFile(
+      join(collectionDir, 'missing.bru'),
+      `meta {
+  name: Missing
+  type: http
+}
+
+put {
+  url: https://api.example.com/missing
+  body: file
+}
+
+body:file {
+  file: @file(assets/missing.bin)
+}`
+    );
+    const outputPath = join(testDir, 'output', 'collection.json');
+
+    await convertCommand(collectionDir, { output: outputPath });
+
+    expect(processExitSpy).not.toHaveBeenCalled();
+    const collection = JSON.parse(await readFile(outputPath));
+    const upload = collection.item.find((item: any) => item.name === 'upload');
+    expect(upload.request.body).toEqual({
+      mode: 'file',
+      file: { src: '../collection/assets/avatar.png' },
+    });
+
+    const output = consoleSpy.mock.calls.map((call) => String(call[0])).join('\n');
+    expect(output).toContain('Body file not found: assets/missing.bin (request "Missing")');
+    expect(output).not.toContain('assets/avatar.png (request');
+  });
+
+  it('should report path parameters without a params:path entry as warnings', async () => {
+    const collectionDir = join(testDir, 'collection');
+    await writeFile(
+      join(collectionDir, 'user.bru'),
+      `meta {
+  name: Get User
+  type: http
+}
+
+get {
+  url: https://api.example.com/users/:id
+}`
+    );
+    const outputPath = join(testDir, 'collection.json');
+
+    await convertCommand(collectionDir, { output: outputPath, json: true });
+
+    expect(processExitSpy).not.toHaveBeenCalled();
+    const report = JSON.parse(String(consoleSpy.mock.calls[consoleSpy.mock.calls.length - 1][0]));
+    expect(report.warnings).toContain(
+      'Path parameter ":id" in https://api.example.com/users/:id has no matching params:path entry (request "Get User")'
+    );
+  });
+
+  it('should only convert requests matching the tag filter', async () => {
+    const collectionDir = join(testDir, 'collection');
+    const tagged = (name: string, tags: string) => `meta {
+  name: ${name}
+  type: http
+  tags: [${tags}]
+}
+
+get {
+  url: https://api.example.com/${name}
+}`;
+    await writeFile(join(collectionDir, 'health.bru'), tagged('health', 'smoke'));
+    await writeFile(
+      join(collectionDir, 'billing', 'invoices.bru'),
+      tagged('invoices', 'smoke, slow')
+    );
+    await writeFile(join(collectionDir, 'users', 'list.bru'), tagged('list', 'users'));
+    const outputPath = join(testDir, 'smoke.json');
+
+    await convertCommand(collectionDir, { output: outputPath, tags: 'smoke', excludeTags: 'slow' });
+
+    expect(processExitSpy).not.toHaveBeenCalled();
+    const collection = JSON.parse(await readFile(outputPath));
+    expect(collection.item).toHaveLength(1);
+    expect(collection.item[0]).toMatchObject({
+      name: 'health',
+      request: { description: 'Tags: `smoke`' },
+    });
+
+    const output = consoleSpy.mock.calls.map((call) => String(call[0])).join('\n');
+    expect(output).toContain('Total files: 1');
+    expect(output).toContain('Successful: 1 (100.0%)');
+    expect(output).toContain('Skipped by tag filter: 2');
+  });
+
+  it('should fail when no request matches the tag filter', async () => {
+    const inputPath = join(testDir, 'health.bru');
+    await writeFile(
+      inputPath,
+      `meta {
+  name: Health
+  type: http
+}
+
+get {
+  url: https://api.example.com/health
+}`
+    );
+
+    await convertCommand(inputPath, { tags: 'smoke' });
+
+    expect(processExitSpy).toHaveBeenCalledWith(1);
+  });
+
   it('should fail for non-existent input file', async () => {
     const nonExistentPath = join(testDir, 'does-not-exist.bru');
 
@@ -206,7 +206,7 @@ script:test {
     const preRequestScript = preRequestEvent?.script?.exec?.join('\n') || '';
 
     expect(preRequestScript).toContain('// WARNING: partial conversion');
-    expect(preRequestScript).toContain('pm.environment.set'); // Converted code
+    expect(preRequestScript).toContain('pm.collectionVariables.set'); // Converted code
     expect(preRequestScript).toContain('bru.customFunction'); // Unmappable code preserved
 
     const testEvent = events.find((e: any) => e.listen === 'test');
@@ -2,6 +2,9 @@ import { describe, it, expect } from '@jest/globals';
 import { buildPostmanCollection } from '../../../src/builders/collectionBuilder.js';
 import { parseBrunoFile } from '../../../src/parsers/brunoParser.js';
 import { readFile } from '../../../src/services/fileService.js';
+import { FileTreeNode } from '../../../src/types/brunoCollection.types.js';
+import { BrunoRequest } from '../../../src/types/bruno.types.js';
+import { DEFAULT_VARIABLE_SCOPES } from '../../../src/converters/variableScopeConverter.js';
 import { join } from 'path';
 
 const FIXTURES_DIR = join(process.cwd(), 'tests/fixtures/bruno');
@@ -71,7 +74,7 @@ script:pre-request {
       expect(item.event).toBeDefined();
       const preRequestEvent = item.event?.find((e: any) => e.listen === 'prerequest');
       expect(preRequestEvent).toBeDefined();
-      expect(preRequestEvent?.script?.exec?.join('\n')).toContain('pm.environment.set');
+      expect(preRequestEvent?.script?.exec?.join('\n')).toContain('pm.collectionVariables.set');
     });
 
     it('should include test scripts if present', async () => {
@@ -103,6 +106,534 @@ script:test {
       expect(testEvent?.script?.exec?.join('\n')).toContain('pm.response.code');
     });
 
+    it('should append generated assertion tests to the test event', () => {
+      const content = `meta {
+  name: Test Request
+  type: http
+  seq: 1
+}
+
+get {
+  url: https://api.example.com/test
+}
+
+script:test {
+  test("Has body", function() {
+    expect(res.body).to.be.an("object");
+  });
+}
+
+assert {
+  res.status: eq 200
+}`;
+
+      const brunoRequest = parseBrunoFile(content);
+      const collection = buildPostmanCollection('Test Collection', [
+        { name: 'Test', request: brunoRequest },
+      ]);
+
+      const testEvents = collection.item[0].event?.filter((e: any) => e.listen === 'test');
+      expect(testEvents).toHaveLength(1);
+      const script = testEvents?.[0].script.exec.join('\n') ?? '';
+      expect(script).toContain('pm.test("Has body"');
+      expect(script).toContain('pm.test("res.status: eq 200"');
+      expect(script.indexOf('Has body')).toBeLessThan(script.indexOf('res.status: eq 200'));
+    });
+
+    it('should create a test event from assertions alone', () => {
+      const content = `meta {
+  name: Test Request
+  type: http
+  seq: 1
+}
+
+get {
+  url: https://api.example.com/test
+}
+
+assert {
+  res.status: eq 200
+}`;
+
+      const brunoRequest = parseBrunoFile(content);
+      const collection = buildPostmanCollection('Test Collection', [
+        { name: 'Test', request: brunoRequest },
+      ]);
+
+      const testEvent = collection.item[0].event?.find((e: any) => e.listen === 'test');
+      expect(testEvent?.script.exec.join('\n')).toContain(
+        'pm.expect(pm.response.code).to.eql(200);'
+      );
+    });
+
+    it('should convert request vars into prerequest and test events', () => {
+      const content = `meta {
+  name: Login
+  type: http
+  seq: 1
+}
+
+post {
+  url: https://api.example.com/login
+}
+
+vars:pre-request {
+  tenant: acme
+}
+
+vars:post-response {
+  token: res.body.access_token
+}
+
+script:pre-request {
+  bru.setVar("timestamp", Date.now());
+}`;
+
+      const brunoRequest = parseBrunoFile(content);
+      const collection = buildPostmanCollection('Test Collection', [
+        { name: 'Login', request: brunoRequest },
+      ]);
+
+      const events = collection.item[0].event ?? [];
+      const preRequest = events.find((e: any) => e.listen === 'prerequest');
+      const test = events.find((e: any) => e.listen === 'test');
+      expect(preRequest?.script.exec[0]).toBe('pm.variables.set("tenant", "acme");');
+      expect(preRequest?.script.exec.join('\n')).toContain(
+        'pm.collectionVariables.set("timestamp"'
+      );
+      expect(test?.script.exec).toEqual([
+        'pm.collectionVariables.set("token", pm.response.json().access_token);',
+      ]);
+    });
+
+    it('should merge post-response script ahead of tests in the test event', () => {
+      const content = `meta {
+  name: Login
+  type: http
+  seq: 1
+}
+
+post {
+  url: https://api.example.com/login
+}
+
+script:post-response {
+  bru.setVar("token", res.body.token);
+}
+
+tests {
+  test("Status is 200", function() {
+    expect(res.status).to.equal(200);
+  });
+}`;
+
+      const brunoRequest = parseBrunoFile(content);
+
+      for (const useAST of [false, true]) {
+        const warnings: string[] = [];
+        const collection = buildPostmanCollection(
+          'Test Collection',
+          [{ name: 'Login', request: brunoRequest }],
+          useAST,
+          DEFAULT_VARIABLE_SCOPES,
+          warnings
+        );
+
+        expect(warnings).toEqual([
+          'Post-response script and tests are merged into one Postman test script (request "Login")',
+        ]);
+        const testEvents = collection.item[0].event?.filter((e: any) => e.listen === 'test');
+        expect(testEvents).toHaveLength(1);
+        const script = testEvents?.[0].script.exec.join('\n') ?? '';
+        expect(script).toContain('// WARNING: post-response script and tests are merged');
+        expect(script).toContain('pm.collectionVariables.set("token", pm.response.json().token)');
+        expect(script.indexOf('pm.collectionVariables.set("token"')).toBeLessThan(
+          script.indexOf('pm.test("Status is 200"')
+        );
+      }
+    });
+
+    it('should apply the variable scope mapping to scripts and captures', () => {
+      const content = `meta {
+  name: Login
+  type: http
+}
+
+post {
+  url: https://api.example.com/login
+}
+
+vars:post-response {
+  token: res.body.token
+}
+
+script:post-response {
+  bru.setVar("userId", res.body.id);
+}`;
+
+      const brunoRequest = parseBrunoFile(content);
+      const scopes = { runtime: 'environment', env: 'environment', globals: 'globals' } as const;
+
+      for (const useAST of [false, true]) {
+        const collection = buildPostmanCollection(
+          'Test Collection',
+          [{ name: 'Login', request: brunoRequest }],
+          useAST,
+          scopes
+        );
+
+        const test = collection.item[0].event?.find((e: any) => e.listen === 'test');
+        const script = test?.script.exec.join('\n') ?? '';
+        expect(script).toContain('pm.environment.set("token", pm.response.json().token);');
+        expect(script).toContain('pm.environment.set("userId", pm.response.json().id)');
+      }
+    });
+
+    it('should add the wsse helper script to the prerequest event', () => {
+      const content = `meta {
+  name: Legacy
+  type: http
+  seq: 1
+}
+
+get {
+  url: https://legacy.example.com
+}
+
+auth:wsse {
+  username: jane
+  password: secret
+}`;
+
+      const brunoRequest = parseBrunoFile(content);
+      const warnings: string[] = [];
+      const collection = buildPostmanCollection(
+        'Test Collection',
+        [{ name: 'Legacy', request: brunoRequest }],
+        false,
+        DEFAULT_VARIABLE_SCOPES,
+        warnings
+      );
+
+      const preRequest = collection.item[0].event?.find((e: any) => e.listen === 'prerequest');
+      expect(preRequest?.script.exec.join('\n')).toContain('X-WSSE');
+      expect(warnings).toEqual([expect.stringContaining('Postman has no WSSE auth')]);
+      expect(warnings[0]).toContain('(request "Legacy")');
+    });
+
+    it('should map collection and folder auth to Postman inheritance', () => {
+      const request = (auth: string): FileTreeNode => ({
+        name: `${auth}.bru`,
+        path: `/collection/${auth}.bru`,
+        type: 'file',
+        children: [],
+        brunoRequest: parseBrunoFile(`meta {
+  name: ${auth}
+  type: http
+}
+
+get {
+  url: https://api.example.com/${auth}
+  auth: ${auth}
+}`),
+      });
+
+      const tree: FileTreeNode = {
+        name: 'collection',
+        path: '/collection',
+        type: 'directory',
+        brunoFolder: { auth: { type: 'bearer', bearer: { token: '{{token}}' } } },
+        children: [
+          request('inherit'),
+          request('none'),
+          {
+            name: 'admin',
+            path: '/collection/admin',
+            type: 'directory',
+            brunoFolder: {
+              auth: { type: 'basic', basic: { username: 'admin', password: 'pw' } },
+            },
+            children: [request('inherit')],
+          },
+          {
+            name: 'public',
+            path: '/collection/public',
+            type: 'directory',
+            brunoFolder: { auth: { type: 'none' } },
+            children: [request('none')],
+          },
+        ],
+      };
+
+      const collection = buildPostmanCollection('Auth Collection', tree);
+
+      expect(collection.auth?.type).toBe('bearer');
+      expect(collection.item[0].request?.auth).toBeUndefined();
+      expect(collection.item[1].request?.auth).toEqual({ type: 'noauth' });
+      expect(collection.item[2].auth?.type).toBe('basic');
+      expect(collection.item[2].item?.[0].request?.auth).toBeUndefined();
+      expect(collection.item[3].auth).toEqual({ type: 'noauth' });
+      expect(collection.item[3].item?.[0].request?.auth).toBeUndefined();
+    });
+
+    it('should resolve bru.runRequest paths against the collection tree', () => {
+      const tree: FileTreeNode = {
+        name: 'collection',
+        path: '/collection',
+        type: 'directory',
+        children: [
+          {
+            name: 'auth',
+            path: '/collection/auth',
+            type: 'directory',
+            brunoFolder: {
+              auth: { type: 'bearer', bearer: { token: '{{token}}' } },
+              headers: [{ key: 'X-Tenant', value: '{{tenant}}', enabled: true }],
+            },
+            children: [
+              {
+                name: 'login.bru',
+                path: '/collection/auth/login.bru',
+                type: 'file',
+                children: [],
+                brunoRequest: parseBrunoFile(`meta {
+  name: Login
+  type: http
+}
+
+post {
+  url: https://api.example.com/login
+  auth: inherit
+}`),
+              },
+            ],
+          },
+          {
+            name: 'profile.bru',
+            path: '/collection/profile.bru',
+            type: 'file',
+            children: [],
+            brunoRequest: parseBrunoFile(`meta {
+  name: Profile
+  type: http
+}
+
+get {
+  url: https://api.example.com/me
+}
+
+script:pre-request {
+  await bru.runRequest("auth/login");
+}`),
+          },
+        ],
+      };
+
+      const collection = buildPostmanCollection('Flow Collection', tree, true);
+
+      const preRequest = collection.item[1].event?.find((e: any) => e.listen === 'prerequest');
+      const script = preRequest?.script.exec.join('\n') ?? '';
+      expect(script).toContain('await pm.sendRequest({');
+      expect(script).toContain('url: "https://api.example.com/login",');
+      expect(script).toContain('key: "X-Tenant"');
+      expect(script).toContain('type: "bearer"');
+      expect(script).not.toContain('partial conversion');
+    });
+
+    it('should report the cookie jar and sendRequest timeout caveats', () => {
+      const brunoRequest = parseBrunoFile(`meta {
+  name: Session
+  type: http
+}
+
+get {
+  url: https://api.example.com/session
+}
+
+script:pre-request {
+  const jar = bru.cookies.jar();
+  jar.setCookie("https://example.com", "session", "abc");
+  await bru.sendRequest({ url: "https://example.com/ping", timeout: 1000 });
+}`);
+
+      const warnings: string[] = [];
+      buildPostmanCollection(
+        'Cookies',
+        [{ name: 'Session', request: brunoRequest }],
+        true,
+        DEFAULT_VARIABLE_SCOPES,
+        warnings
+      );
+
+      expect(warnings).toEqual([
+        'bru.sendRequest() timeout was removed, pm.sendRequest() has no timeout option (request "Session")',
+        'pm.cookies.jar() needs the cookie domains to be allowlisted in Postman (request "Session")',
+      ]);
+    });
+
+    it('should report bru.runRequest paths missing from the collection', () => {
+      const tree: FileTreeNode = {
+        name: 'collection',
+        path: '/collection',
+        type: 'directory',
+        children: [
+          {
+            name: 'profile.bru',
+            path: '/collection/profile.bru',
+            type: 'file',
+            children: [],
+            brunoRequest: parseBrunoFile(`meta {
+  name: Profile
+  type: http
+}
+
+get {
+  url: https://api.example.com/me
+}
+
+script:pre-request {
+  await bru.runRequest("auth/login");
+}`),
+          },
+        ],
+      };
+
+      const warnings: string[] = [];
+      buildPostmanCollection('Flow Collection', tree, true, DEFAULT_VARIABLE_SCOPES, warnings);
+
+      expect(warnings).toContain(
+        'Request not found for bru.runRequest: auth/login (request "Profile")'
+      );
+    });
+
+    it('should attach collection and folder settings to the collection and item groups', () => {
+      const tree: FileTreeNode = {
+        name: 'collection',
+        path: '/collection',
+        type: 'directory',
+        brunoFolder: {
+          headers: [{ key: 'X-Tenant', value: '{{tenant}}', enabled: true }],
+          preRequestVars: [{ key: 'apiVersion', value: 'v2', enabled: true }],
+          docs: 'Collection docs',
+        },
+        children: [
+          {
+            name: 'users',
+            path: '/collection/users',
+            type: 'directory',
+            brunoFolder: {
+              testScript: 'test("ok", function() { expect(res.status).to.equal(200); });',
+              postResponseVars: [{ key: 'userId', value: 'res.body.id', enabled: true }],
+              docs: 'Users folder docs',
+            },
+            children: [],
+          },
+        ],
+      };
+
+      const collection = buildPostmanCollection('Settings Collection', tree);
+
+      expect(collection.info.description).toBe('Collection docs');
+      expect(collection.variable).toEqual([{ key: 'apiVersion', value: 'v2' }]);
+      expect(collection.event).toBeUndefined();
+
+      const users = collection.item[0];
+      expect(users.description).toBe('Users folder docs');
+      expect(users.event?.[0].listen).toBe('test');
+      const script = users.event?.[0].script.exec.join('\n') ?? '';
+      expect(script).toContain('pm.collectionVariables.set("userId", pm.response.json().id);');
+      expect(script).toContain('pm.expect(pm.response.code).to.equal(200)');
+    });
+
+    it('should add shared headers to requests, request headers first, then folder headers', () => {
+      const request = (headers: BrunoRequest['headers']): BrunoRequest => ({
+        meta: { name: 'Export', type: 'http' },
+        method: 'GET',
+        url: 'https://api.example.com/export',
+        headers,
+        queryParams: [],
+        pathParams: [],
+      });
+      const tree: FileTreeNode = {
+        name: 'collection',
+        path: '/collection',
+        type: 'directory',
+        brunoFolder: {
+          headers: [
+            { key: 'Accept', value: 'application/json', enabled: true },
+            { key: 'X-Tenant', value: 'acme', enabled: true },
+            { key: 'X-Debug', value: 'true', enabled: false },
+          ],
+        },
+        children: [
+          {
+            name: 'reports',
+            path: '/collection/reports',
+            type: 'directory',
+            brunoFolder: {
+              headers: [{ key: 'x-tenant', value: 'reports', enabled: true }],
+            },
+            children: [
+              {
+                name: 'export.bru',
+                path: '/collection/reports/export.bru',
+                type: 'file',
+                brunoRequest: request([{ key: 'Accept', value: 'text/csv', enabled: true }]),
+                children: [],
+              },
+            ],
+          },
+        ],
+      };
+
+      const collection = buildPostmanCollection('Headers Collection', tree);
+
+      expect(collection.event).toBeUndefined();
+      expect(collection.item[0].event).toBeUndefined();
+      expect(collection.item[0].item?.[0].request?.header).toMatchObject([
+        { key: 'Accept', value: 'text/csv' },
+        { key: 'x-tenant', value: 'reports' },
+      ]);
+    });
+
+    it('should convert request settings to protocolProfileBehavior', async () => {
+      const content = await readFile(join(FIXTURES_DIR, 'settings.bru'));
+      const brunoRequest = parseBrunoFile(content);
+
+      const warnings: string[] = [];
+      const collection = buildPostmanCollection(
+        'Settings',
+        [{ name: 'Login Redirect', request: brunoRequest }],
+        false,
+        DEFAULT_VARIABLE_SCOPES,
+        warnings
+      );
+
+      const item = collection.item[0];
+      expect(item.protocolProfileBehavior).toEqual({
+        disableUrlEncoding: true,
+        followRedirects: false,
+        maxRedirects: 3,
+      });
+      expect(item.event).toBeUndefined();
+      expect(warnings).toEqual([expect.stringContaining('Postman has no per-request timeout')]);
+      expect(warnings[0]).toContain(`(request "${brunoRequest.meta.name}")`);
+    });
+
+    it('should add saved examples as item responses', async () => {
+      const content = await readFile(join(FIXTURES_DIR, 'with-examples.bru'));
+      const brunoRequest = parseBrunoFile(content);
+
+      const collection = buildPostmanCollection('Examples', [
+        { name: 'Get User', request: brunoRequest },
+      ]);
+
+      expect(collection.item[0].response).toMatchObject([
+        { name: 'User found', code: 200 },
+        { name: 'Create conflict', code: 409 },
+      ]);
+    });
+
     it('should handle empty request list', () => {
       const collection = buildPostmanCollection('Empty Collection', []);
 
@@ -126,13 +657,45 @@ script:pre-request {
 }`;
 
       const brunoRequest = parseBrunoFile(content);
-      const collection = buildPostmanCollection('Test Collection', [
-        { name: 'Test', request: brunoRequest },
-      ]);
+      const warnings: string[] = [];
+      const collection = buildPostmanCollection(
+        'Test Collection',
+        [{ name: 'Test', request: brunoRequest }],
+        false,
+        DEFAULT_VARIABLE_SCOPES,
+        warnings
+      );
 
       const item = collection.item[0];
       const preRequestEvent = item.event?.find((e: any) => e.listen === 'prerequest');
       expect(preRequestEvent?.script?.exec?.join('\n')).toContain('// WARNING');
+      expect(warnings).toEqual([
+        'Script contains partial conversion - manual review required (request "Test Request")',
+      ]);
+    });
+
+    it('should report folder and collection script warnings with their source', () => {
+      const tree: FileTreeNode = {
+        name: 'collection',
+        path: '/collection',
+        type: 'directory',
+        brunoFolder: { preRequestScript: 'bru.customFunction();' },
+        children: [
+          {
+            name: 'users',
+            path: '/collection/users',
+            type: 'directory',
+            brunoFolder: { testScript: 'bru.getProcessEnv("HOME");' },
+            children: [],
+          },
+        ],
+      };
+
+      const warnings: string[] = [];
+      buildPostmanCollection('Scripts', tree, true, DEFAULT_VARIABLE_SCOPES, warnings);
+
+      expect(warnings).toContain('Unmappable Bruno API: bru.customFunction (collection "Scripts")');
+      expect(warnings).toContain('bru.getProcessEnv() has no Postman equivalent (folder "users")');
     });
 
     it('should set collection schema correctly', () => {
@@ -0,0 +1,109 @@
+import { describe, it, expect } from '@jest/globals';
+import { convertAssertions } from '../../../src/converters/assertionConverter.js';
+import { BrunoAssertion } from '../../../src/types/bruno.types.js';
+
+const assertion = (
+  target: string,
+  operator: BrunoAssertion['operator'],
+  value = '',
+  enabled = true
+): BrunoAssertion => ({ target, operator, value, enabled });
+
+describe('assertionConverter', () => {
+  describe('convertAssertions', () => {
+    it('should wrap each assertion in a pm.test block', () => {
+      const result = convertAssertions([assertion('res.status', 'eq', '200')]);
+
+      expect(result).toEqual([
+        'pm.test("res.status: eq 200", function () {',
+        '  pm.expect(pm.response.code).to.eql(200);',
+        '});',
+      ]);
+    });
+
+    it('should skip disabled assertions', () => {
+      const result = convertAssertions([assertion('res.status', 'eq', '200', false)]);
+
+      expect(result).toEqual([]);
+    });
+
+    it('should map response targets to pm.response', () => {
+      const script = convertAssertions([
+        assertion('res.body.id', 'isNumber'),
+        assertion('res.headers.content-type', 'contains', 'json'),
+        assertion('res.responseTime', 'lt', '500'),
+        assertion("res('data.id')", 'isNumber'),
+      ]).join('\n');
+
+      expect(script).toContain(
+        "pm.expect(_.get(pm.response.json(), 'data.id')).to.be.a('number');"
+      );
+
+      expect(script).toContain("pm.expect(pm.response.json().id).to.be.a('number');");
+      expect(script).toContain(
+        'pm.expect(pm.response.headers.get("content-type")).to.include("json");'
+      );
+      expect(script).toContain('pm.expect(pm.response.responseTime).to.be.below(500);');
+    });
+
+    it('should convert comparison operators', () => {
+      const script = convertAssertions([
+        assertion('res.body.count', 'neq', '0'),
+        assertion('res.body.count', 'gt', '1'),
+        assertion('res.body.count', 'gte', '1'),
+        assertion('res.body.count', 'lte', '100'),
+        assertion('res.body.count', 'between', '1, 10'),
+      ]).join('\n');
+
+      expect(script).toContain('.to.not.eql(0)');
+      expect(script).toContain('.to.be.above(1)');
+      expect(script).toContain('.to.be.at.least(1)');
+      expect(script).toContain('.to.be.at.most(100)');
+      expect(script).toContain('.to.be.within(1, 10)');
+    });
+
+    it('should convert list and string operators', () => {
+      const script = convertAssertions([
+        assertion('res.body.state', 'in', 'active, pending'),
+        assertion('res.body.state', 'notIn', 'deleted'),
+        assertion('res.body.items', 'length', '3'),
+        assertion('res.body.email', 'matches', '^.+@example\\.com$'),
+        assertion('res.body.name', 'startsWith', '"John"'),
+        assertion('res.body.name', 'endsWith', '"Doe"'),
+      ]).join('\n');
+
+      expect(script).toContain('.to.be.oneOf(["active", "pending"])');
+      expect(script).toContain('.to.not.be.oneOf(["deleted"])');
+      expect(script).toContain('.to.have.lengthOf(3)');
+      expect(script).toContain('.to.match(new RegExp("^.+@example\\\\.com$"))');
+      expect(script).toContain(
+        'pm.expect(String(pm.response.json().name).startsWith("John")).to.be.true'
+      );
+      expect(script).toContain(
+        'pm.expect(String(pm.response.json().name).endsWith("Doe")).to.be.true'
+      );
+    });
+
+    it('should convert unary operators', () => {
+      const script = convertAssertions([
+        assertion('res.body.id', 'isDefined'),
+        assertion('res.body.deletedAt', 'isNull'),
+        assertion('res.body.tags', 'isArray'),
+        assertion('res.body.tags', 'isNotEmpty'),
+        assertion('res.body.active', 'isTruthy'),
+      ]).join('\n');
+
+      expect(script).toContain('pm.expect(pm.response.json().id).to.not.be.undefined;');
+      expect(script).toContain('pm.expect(pm.response.json().deletedAt).to.be.null;');
+      expect(script).toContain("pm.expect(pm.response.json().tags).to.be.an('array');");
+      expect(script).toContain('pm.expect(pm.response.json().tags).to.not.be.empty;');
+      expect(script).toContain('pm.expect(pm.response.json().active).to.be.ok;');
+    });
+
+    it('should resolve {{variables}} in expected values', () => {
+      const script = convertAssertions([assertion('res.body.id', 'eq', '{{userId}}')]).join('\n');
+
+      expect(script).toContain('.to.eql(pm.variables.get("userId"))');
+    });
+  });
+});
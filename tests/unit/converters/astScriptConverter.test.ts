@@ -4,6 +4,8 @@ import {
   convertTestScriptAST,
   shouldUseAST,
 } from '../../../src/converters/astScriptConverter.js';
+import { DEFAULT_VARIABLE_SCOPES } from '../../../src/converters/variableScopeConverter.js';
+import { BrunoRequest } from '../../../src/types/bruno.types.js';
 
 describe('astScriptConverter', () => {
   describe('shouldUseAST', () => {
@@ -53,21 +55,21 @@ describe('astScriptConverter', () => {
   });
 
   describe('convertPreRequestScriptAST', () => {
-    it('should convert bru.setVar to pm.environment.set', () => {
+    it('should convert bru.setVar to pm.collectionVariables.set', () => {
       const brunoScript = 'bru.setVar("timestamp", Date.now());';
       const result = convertPreRequestScriptAST(brunoScript);
 
       expect(result.success).toBe(true);
-      expect(result.script).toContain('pm.environment.set("timestamp", Date.now())');
+      expect(result.script).toContain('pm.collectionVariables.set("timestamp", Date.now())');
       expect(result.warnings).toHaveLength(0);
     });
 
-    it('should convert bru.getVar to pm.environment.get', () => {
+    it('should convert bru.getVar to pm.collectionVariables.get', () => {
       const brunoScript = 'const token = bru.getVar("token");';
       const result = convertPreRequestScriptAST(brunoScript);
 
       expect(result.success).toBe(true);
-      expect(result.script).toContain('const token = pm.environment.get("token")');
+      expect(result.script).toContain('const token = pm.collectionVariables.get("token")');
       expect(result.warnings).toHaveLength(0);
     });
 
@@ -97,7 +99,7 @@ for (let i = 0; i < 10; i++) {
 
       expect(result.success).toBe(true);
       expect(result.script).toContain('for (let i = 0; i < 10; i++)');
-      expect(result.script).toContain('pm.environment.set');
+      expect(result.script).toContain('pm.collectionVariables.set');
     });
 
     it('should handle arrow functions with closures', () => {
@@ -111,7 +113,7 @@ const timestamps = [1, 2, 3].map(n => {
       const result = convertPreRequestScriptAST(brunoScript);
 
       expect(result.success).toBe(true);
-      expect(result.script).toContain('pm.environment.set');
+      expect(result.script).toContain('pm.collectionVariables.set');
       expect(result.script).toContain('.map(n =>');
     });
 
@@ -125,7 +127,7 @@ bru.setVar("greeting", message);
 
       expect(result.success).toBe(true);
       expect(result.script).toContain('`Hello ${name}`');
-      expect(result.script).toContain('pm.environment.set("greeting", message)');
+      expect(result.script).toContain('pm.collectionVariables.set("greeting", message)');
     });
 
     it('should handle destructuring', () => {
@@ -139,7 +141,7 @@ bru.setVar("apiKey", apiKey);
       expect(result.success).toBe(true);
       // Babel may format with newlines, so check for key parts
       expect(result.script).toMatch(/apiKey.*secret.*=.*config/s);
-      expect(result.script).toContain('pm.environment.set("apiKey", apiKey)');
+      expect(result.script).toContain('pm.collectionVariables.set("apiKey", apiKey)');
     });
 
     it('should handle async/await', () => {
@@ -156,7 +158,7 @@ fetchToken();
       expect(result.success).toBe(true);
       expect(result.script).toContain('async function fetchToken()');
       expect(result.script).toContain('await fetch');
-      expect(result.script).toContain('pm.environment.set("token", data.token)');
+      expect(result.script).toContain('pm.collectionVariables.set("token", data.token)');
     });
 
     it('should handle spread operators', () => {
@@ -168,7 +170,7 @@ bru.setVar("headers", JSON.stringify(headers));
 
       expect(result.success).toBe(true);
       expect(result.script).toContain('...defaultHeaders');
-      expect(result.script).toContain('pm.environment.set("headers"');
+      expect(result.script).toContain('pm.collectionVariables.set("headers"');
     });
 
     it('should handle nested bru calls', () => {
@@ -180,8 +182,47 @@ bru.setVar("counter", newValue.toString());
       const result = convertPreRequestScriptAST(brunoScript);
 
       expect(result.success).toBe(true);
-      expect(result.script).toContain('pm.environment.get("counter")');
-      expect(result.script).toContain('pm.environment.set("counter"');
+      expect(result.script).toContain('pm.collectionVariables.get("counter")');
+      expect(result.script).toContain('pm.collectionVariables.set("counter"');
+    });
+
+    it('should map every Bruno variable scope to its default Postman scope', () => {
+      const brunoScript = `if (bru.hasVar("token")) bru.deleteVar("token");
+bru.setGlobalEnvVar("region", bru.getGlobalEnvVar("fallbackRegion"));`;
+      const result = convertPreRequestScriptAST(brunoScript);
+
+      expect(result.success).toBe(true);
+      expect(result.script).toContain(
+        'if (pm.collectionVariables.has("token")) pm.collectionVariables.unset("token");'
+      );
+      expect(result.script).toContain(
+        'pm.globals.set("region", pm.globals.get("fallbackRegion"));'
+      );
+      expect(result.warnings).toHaveLength(0);
+    });
+
+    it('should use a custom variable scope mapping', () => {
+      const brunoScript = 'bru.setVar("page", bru.getEnvVar("firstPage"));';
+      const result = convertPreRequestScriptAST(brunoScript, {
+        runtime: 'variables',
+        env: 'collectionVariables',
+        globals: 'globals',
+      });
+
+      expect(result.script).toBe(
+        'pm.variables.set("page", pm.collectionVariables.get("firstPage"));'
+      );
+    });
+
+    it('should read bru.getProcessEnv from the environment with a warning', () => {
+      const brunoScript = 'const secret = bru.getProcessEnv("API_SECRET");';
+      const result = convertPreRequestScriptAST(brunoScript);
+
+      expect(result.script).toBe(
+        '// WARNING: data loss - Postman has no process environment, bru.getProcessEnv() values are read from pm.environment\n' +
+          'const secret = pm.environment.get("API_SECRET");'
+      );
+      expect(result.warnings).toContain('bru.getProcessEnv() has no Postman equivalent');
     });
 
     it('should preserve comments', () => {
@@ -220,6 +261,299 @@ const token = bru.getVar("token");
     });
   });
 
+  describe('req API conversion', () => {
+    it('should convert header accessors to pm.request.headers', () => {
+      const brunoScript = `const signature = sign(req.getHeader("Date"));
+req.setHeader("X-Signature", signature);
+req.deleteHeader("X-Debug");
+const headers = req.getHeaders();`;
+      const result = convertPreRequestScriptAST(brunoScript);
+
+      expect(result.success).toBe(true);
+      expect(result.script).toBe(`const signature = sign(pm.request.headers.get("Date"));
+pm.request.headers.upsert({
+  key: "X-Signature",
+  value: signature
+});
+pm.request.headers.remove("X-Debug");
+const headers = pm.request.headers.toObject();`);
+      expect(result.warnings).toHaveLength(0);
+    });
+
+    it('should convert url and method accessors', () => {
+      const brunoScript = `req.setUrl(req.getUrl() + "?signed=1");
+if (req.getMethod() === "GET") req.setMethod("POST");`;
+      const result = convertPreRequestScriptAST(brunoScript);
+
+      expect(result.script).toBe(`pm.request.url.update(pm.request.url.toString() + "?signed=1");
+if (pm.request.method === "GET") pm.request.method = "POST";`);
+    });
+
+    it('should serialize bodies passed to req.setBody', () => {
+      const brunoScript = `req.setBody({ signed: true });
+req.setBody("raw text");
+req.setBody(payload);`;
+      const result = convertPreRequestScriptAST(brunoScript);
+
+      expect(result.script).toContain(
+        'pm.request.body.update(JSON.stringify({\n  signed: true\n}));'
+      );
+      expect(result.script).toContain('pm.request.body.update("raw text");');
+      expect(result.script).toContain(
+        'pm.request.body.update(typeof payload === "string" ? payload : JSON.stringify(payload));'
+      );
+    });
+
+    it('should warn that req.getBody returns the raw body', () => {
+      const result = convertPreRequestScriptAST('const body = req.getBody();');
+
+      expect(result.script).toBe(
+        '// WARNING: req.getBody() is converted to the raw body string - use JSON.parse() for JSON bodies\n' +
+          'const body = pm.request.body.raw;'
+      );
+    });
+
+    it('should remove setters Postman cannot express with a data loss warning', () => {
+      const brunoScript = `req.setTimeout(5000);
+req.setMaxRedirects(2);
+req.setHeader("X-Id", "1");
+req.setTimeout(10000);`;
+      const result = convertPreRequestScriptAST(brunoScript);
+
+      expect(result.script)
+        .toBe(`// WARNING: data loss - req.setTimeout() was removed, Postman has no per-request timeout
+// WARNING: data loss - req.setMaxRedirects() was removed, set the redirect limit in the request settings
+pm.request.headers.upsert({
+  key: "X-Id",
+  value: "1"
+});`);
+      expect(result.warnings).toEqual([
+        'Unsupported Bruno API: req.setTimeout',
+        'Unsupported Bruno API: req.setMaxRedirects',
+      ]);
+    });
+
+    it('should flag unknown req methods and leave local req variables alone', () => {
+      const unknown = convertPreRequestScriptAST('req.setProxy("localhost");');
+      expect(unknown.script).toContain('// WARNING: partial conversion - review manually');
+      expect(unknown.warnings).toContain('Unmappable Bruno API: req.setProxy');
+
+      const local = convertPreRequestScriptAST(`const req = buildRequest();
+req.setHeader("X-Id", "1");`);
+      expect(local.script).toContain('req.setHeader("X-Id", "1");');
+    });
+  });
+
+  describe('flow control conversion', () => {
+    it('should convert run flow APIs to pm.execution', () => {
+      const brunoScript = `if (res.status === 401) bru.setNextRequest("Login");
+bru.runner.setNextRequest("Logout");
+bru.runner.skipRequest();
+bru.runner.stopExecution();`;
+      const result = convertTestScriptAST(brunoScript);
+
+      expect(result.script)
+        .toBe(`if (pm.response.code === 401) pm.execution.setNextRequest("Login");
+pm.execution.setNextRequest("Logout");
+pm.execution.skipRequest();
+pm.execution.setNextRequest(null);`);
+      expect(result.warnings).toHaveLength(0);
+    });
+
+    it('should convert bru.sleep to a timer promise', () => {
+      const result = convertPreRequestScriptAST('await bru.sleep(500);');
+
+      expect(result.script).toBe('await new Promise(resolve => setTimeout(resolve, 500));');
+    });
+
+    it('should inline the referenced request of bru.runRequest as pm.sendRequest', () => {
+      const login: BrunoRequest = {
+        meta: { name: 'Login', type: 'http' },
+        method: 'POST',
+        url: '{{baseUrl}}/login',
+        headers: [{ key: 'Accept', value: 'application/json', enabled: true }],
+        queryParams: [],
+        pathParams: [],
+      };
+      const requests = new Map([['auth/login', login]]);
+
+      const result = convertPreRequestScriptAST(
+        'const response = await bru.runRequest("auth/login.bru");',
+        DEFAULT_VARIABLE_SCOPES,
+        requests
+      );
+
+      expect(result.script)
+        .toBe(`// WARNING: bru.runRequest("auth/login.bru") is sent with pm.sendRequest() - its scripts do not run and it resolves to a Postman response (use .code and .json())
+const response = await pm.sendRequest({
+  url: pm.variables.replaceIn("{{baseUrl}}/login"),
+  method: "POST",
+  header: [{
+    key: "Accept",
+    value: "application/json"
+  }]
+});`);
+    });
+
+    it('should flag bru.runRequest for unknown or dynamic paths', () => {
+      const unknown = convertPreRequestScriptAST('await bru.runRequest("auth/missing");');
+      expect(unknown.script).toContain('// WARNING: partial conversion - review manually');
+      expect(unknown.warnings).toContain('Request not found for bru.runRequest: auth/missing');
+
+      const dynamic = convertPreRequestScriptAST('await bru.runRequest(path);');
+      expect(dynamic.warnings).toContain('bru.runRequest() needs a literal request path');
+    });
+  });
+
+  describe('utility API conversion', () => {
+    it('should convert bru.interpolate to pm.variables.replaceIn', () => {
+      const result = convertPreRequestScriptAST(
+        'const url = bru.interpolate("{{baseUrl}}/users");'
+      );
+
+      expect(result.script).toBe('const url = pm.variables.replaceIn("{{baseUrl}}/users");');
+      expect(result.warnings).toHaveLength(0);
+    });
+
+    it('should convert the cookie jar API to pm.cookies.jar', () => {
+      const brunoScript = `const jar = bru.cookies.jar();
+jar.setCookie("https://example.com", "session", "abc");
+jar.setCookie("https://example.com", { key: "theme", value: "dark" });
+jar.deleteCookie("https://example.com", "session");
+jar.deleteCookies("https://example.com");
+jar.getCookies("https://example.com", function (error, cookies) {
+  console.log(cookies);
+});`;
+      const result = convertPreRequestScriptAST(brunoScript);
+
+      expect(result.script)
+        .toBe(`// WARNING: pm.cookies.jar() can only access domains allowlisted in the Postman cookie manager
+const jar = pm.cookies.jar();
+jar.set("https://example.com", "session", "abc");
+jar.set("https://example.com", {
+  name: "theme",
+  value: "dark"
+});
+jar.unset("https://example.com", "session");
+jar.clear("https://example.com");
+jar.getAll("https://example.com", function (error, cookies) {
+  console.log(cookies);
+});`);
+      expect(result.warnings).toContain(
+        'pm.cookies.jar() needs the cookie domains to be allowlisted in Postman'
+      );
+    });
+
+    it('should wrap awaited cookie jar calls in a promise', () => {
+      const result = convertPreRequestScriptAST(
+        'const session = await bru.cookies.jar().getCookie("https://example.com", "session");'
+      );
+
+      expect(result.script).toContain(
+        'const session = await new Promise((resolve, reject) => pm.cookies.jar().get("https://example.com", "session", (error, result) => error ? reject(error) : resolve(result)));'
+      );
+    });
+
+    it('should flag cookie jar methods without a Postman equivalent', () => {
+      const result = convertPreRequestScriptAST('const jar = bru.cookies.jar();\njar.clear();');
+
+      expect(result.script).toContain('// WARNING: partial conversion - review manually');
+      expect(result.warnings).toContain('Unmappable Bruno cookie jar method: clear');
+    });
+
+    it('should convert bru.sendRequest options and callback response to pm.sendRequest', () => {
+      const brunoScript = `bru.sendRequest({
+  method: "POST",
+  url: "https://example.com/token",
+  headers: { "Content-Type": "application/json" },
+  data: { user: "admin" },
+  timeout: 5000
+}, function (err, res) {
+  expect(res.status).to.equal(200);
+  bru.setVar("token", res.data.token);
+  bru.setVar("type", res.headers["content-type"]);
+});`;
+      const result = convertTestScriptAST(brunoScript);
+
+      expect(result.script)
+        .toBe(`// WARNING: data loss - bru.sendRequest() timeout was removed, pm.sendRequest() has no timeout option
+pm.sendRequest({
+  method: "POST",
+  url: "https://example.com/token",
+  header: {
+    "Content-Type": "application/json"
+  },
+  body: {
+    mode: "raw",
+    raw: JSON.stringify({
+      user: "admin"
+    })
+  }
+}, function (err, res) {
+  pm.expect(res.code).to.equal(200);
+  pm.collectionVariables.set("token", res.json().token);
+  pm.collectionVariables.set("type", res.headers.get("content-type"));
+});`);
+      expect(result.warnings).toEqual([
+        'bru.sendRequest() timeout was removed, pm.sendRequest() has no timeout option',
+      ]);
+    });
+
+    it('should adapt the awaited bru.sendRequest response', () => {
+      const brunoScript = `const response = await bru.sendRequest({ url: "https://example.com", method: "GET" });
+bru.setVar("id", response.data.id);`;
+      const result = convertPreRequestScriptAST(brunoScript);
+
+      expect(result.script).toContain('const response = await pm.sendRequest({');
+      expect(result.script).toContain('pm.collectionVariables.set("id", response.json().id);');
+    });
+
+    it('should flag bru.sendRequest options that are not an object literal', () => {
+      const result = convertPreRequestScriptAST('bru.sendRequest(options, callback);');
+
+      expect(result.script).toContain('pm.sendRequest(options, callback);');
+      expect(result.warnings).toContain(
+        'bru.sendRequest() options must be an object literal to be converted'
+      );
+    });
+  });
+
+  describe('response API conversion', () => {
+    it('should convert the res query helper to a lodash lookup over the response body', () => {
+      const brunoScript = `const id = res('data.items[0].id');
+const body = res();`;
+      const result = convertTestScriptAST(brunoScript);
+
+      expect(result.script).toBe(`const id = _.get(pm.response.json(), 'data.items[0].id');
+const body = pm.response.json();`);
+      expect(result.warnings).toHaveLength(0);
+    });
+
+    it('should convert res getters to pm.response', () => {
+      const brunoScript = `expect(res.getStatus()).to.equal(200);
+expect(res.getStatusText()).to.equal("OK");
+expect(res.getHeader("content-type")).to.contain("json");
+const headers = res.getHeaders();
+expect(res.getResponseTime()).to.be.below(500);`;
+      const result = convertTestScriptAST(brunoScript);
+
+      expect(result.script).toBe(`pm.expect(pm.response.code).to.equal(200);
+pm.expect(pm.response.status).to.equal("OK");
+pm.expect(pm.response.headers.get("content-type")).to.contain("json");
+const headers = pm.response.headers.toObject();
+pm.expect(pm.response.responseTime).to.be.below(500);`);
+      expect(result.warnings).toHaveLength(0);
+    });
+
+    it('should leave res calls alone when the script declares its own res', () => {
+      const brunoScript = `const res = path => path;
+res('data.id');`;
+      const result = convertTestScriptAST(brunoScript);
+
+      expect(result.script).toBe(brunoScript);
+    });
+  });
+
   describe('convertTestScriptAST', () => {
     it('should convert test() to pm.test()', () => {
       const brunoScript = `
@@ -321,7 +655,7 @@ test("Validate array items", function() {
       expect(result.script).toContain('pm.test("Validate array items"');
       expect(result.script).toContain('pm.response.json()');
       expect(result.script).toContain('pm.expect(items[i])');
-      expect(result.script).toContain('pm.environment.set');
+      expect(result.script).toContain('pm.collectionVariables.set');
       expect(result.script).toContain('for (let i = 0; i < items.length; i++)');
     });
 
@@ -400,8 +734,8 @@ test("Save response data", function() {
       const result = convertTestScriptAST(brunoScript);
 
       expect(result.success).toBe(true);
-      expect(result.script).toContain('pm.environment.set("userId", userId)');
-      expect(result.script).toContain('pm.environment.get("authToken")');
+      expect(result.script).toContain('pm.collectionVariables.set("userId", userId)');
+      expect(result.script).toContain('pm.collectionVariables.get("authToken")');
     });
 
     it('should add warning for unmappable response properties', () => {
@@ -518,7 +852,7 @@ test("Save response", function() {
       const result = convertPreRequestScriptAST(brunoScript);
 
       expect(result.success).toBe(true);
-      expect(result.script).toContain('pm.environment.set("emoji", "🚀")');
+      expect(result.script).toContain('pm.collectionVariables.set("emoji", "🚀")');
     });
 
     it('should handle scripts with regex literals', () => {
@@ -531,7 +865,7 @@ test("Phone format", () => expect(pattern.test(phone)).to.be.true);
 
       expect(result.success).toBe(true);
       expect(result.script).toContain('/\\d{3}-\\d{4}/');
-      expect(result.script).toContain('pm.environment.get("phone")');
+      expect(result.script).toContain('pm.collectionVariables.get("phone")');
     });
 
     it('should handle mixed Bruno and standard JS APIs', () => {
@@ -550,7 +884,7 @@ bru.setVar("uuid", uuid);
       expect(result.script).toContain('Date.now()');
       expect(result.script).toContain('Math.random()');
       expect(result.script).toContain('crypto.randomUUID()');
-      expect(result.script).toContain('pm.environment.set');
+      expect(result.script).toContain('pm.collectionVariables.set');
     });
   });
 });
@@ -0,0 +1,68 @@
+import { describe, it, expect } from '@jest/globals';
+import { convertExamples } from '../../../src/converters/exampleConverter.js';
+import { parseBrunoFile } from '../../../src/parsers/brunoParser.js';
+import { readFile } from '../../../src/services/fileService.js';
+import { join } from 'path';
+
+const FIXTURES_DIR = join(process.cwd(), 'tests/fixtures/bruno');
+
+describe('exampleConverter', () => {
+  describe('convertExamples', () => {
+    it('should convert examples to Postman responses', async () => {
+      const content = await readFile(join(FIXTURES_DIR, 'with-examples.bru'));
+      const responses = convertExamples(parseBrunoFile(content));
+
+      expect(responses).toHaveLength(2);
+      expect(responses[0]).toMatchObject({
+        name: 'User found',
+        code: 200,
+        status: 'OK',
+        _postman_previewlanguage: 'json',
+        header: [{ key: 'Content-Type', value: 'application/json' }],
+        body: '{\n  "id": 1,\n  "name": "Ada"\n}',
+        originalRequest: {
+          method: 'GET',
+          url: { raw: '{{baseUrl}}/users/1' },
+          header: [
+            { key: 'Accept', value: 'application/json', disabled: false },
+            { key: 'X-Debug', value: 'true', disabled: true },
+          ],
+        },
+      });
+      expect(responses[1]).toMatchObject({
+        code: 409,
+        status: 'Conflict',
+        _postman_previewlanguage: 'text',
+        body: 'User already exists',
+        originalRequest: {
+          method: 'POST',
+          header: [],
+          body: { mode: 'raw', raw: '{\n  "name": "Ada"\n}' },
+        },
+      });
+    });
+
+    it('should fall back to the parent request without an example request', async () => {
+      const content = await readFile(join(FIXTURES_DIR, 'simple-get.bru'));
+      const brunoRequest = parseBrunoFile(content);
+
+      const [response] = convertExamples({
+        ...brunoRequest,
+        examples: [{ name: 'Empty', response: { code: 204, headers: [] } }],
+      });
+
+      expect(response.originalRequest).toMatchObject({
+        method: 'GET',
+        url: { raw: 'https://api.example.com/users' },
+      });
+      expect(response).toMatchObject({ code: 204, body: '' });
+      expect(response._postman_previewlanguage).toBeUndefined();
+    });
+
+    it('should return no responses for requests without examples', async () => {
+      const content = await readFile(join(FIXTURES_DIR, 'simple-get.bru'));
+
+      expect(convertExamples(parseBrunoFile(content))).toEqual([]);
+    });
+  });
+});
@@ -1,5 +1,9 @@
 import { describe, it, expect } from '@jest/globals';
-import { convertBrunoToPostmanRequest } from '../../../src/converters/requestConverter.js';
+import {
+  convertBrunoToPostmanRequest,
+  convertAuth,
+  convertAuthScript,
+} from '../../../src/converters/requestConverter.js';
 import { parseBrunoFile } from '../../../src/parsers/brunoParser.js';
 import { readFile } from '../../../src/services/fileService.js';
 import { join } from 'path';
@@ -80,6 +84,334 @@ describe('requestConverter', () => {
       expect(postmanRequest.auth?.bearer?.[0].value).toBe('{{token}}');
     });
 
+    it('should convert path parameters to URL variables', async () => {
+      const content = await readFile(join(FIXTURES_DIR, 'path-params.bru'));
+      const brunoRequest = parseBrunoFile(content);
+      const postmanRequest = convertBrunoToPostmanRequest(brunoRequest);
+
+      expect(postmanRequest.url).toMatchObject({
+        path: ['users', ':userId', 'posts', ':postId'],
+        variable: [
+          { key: 'userId', value: '42' },
+          { key: 'postId', value: '{{postId}}' },
+        ],
+      });
+      expect(postmanRequest.url).not.toHaveProperty('pathVariables');
+    });
+
+    it('should warn when a path parameter has no params:path entry', async () => {
+      const content = await readFile(join(FIXTURES_DIR, 'path-params.bru'));
+      const brunoRequest = { ...parseBrunoFile(content), pathParams: [] };
+      const warnings: string[] = [];
+
+      const postmanRequest = convertBrunoToPostmanRequest(brunoRequest, warnings);
+
+      expect(postmanRequest.url).toMatchObject({
+        variable: [
+          { key: 'userId', value: '' },
+          { key: 'postId', value: '' },
+        ],
+      });
+      expect(warnings).toHaveLength(2);
+      expect(warnings[0]).toContain('":userId"');
+      expect(warnings[0]).toContain(`(request "${brunoRequest.meta.name}")`);
+    });
+
+    it('should emit disabled headers and query params for ~ prefixed entries', () => {
+      const brunoRequest = parseBrunoFile(`
+meta {
+  name: Disabled Entries
+  type: http
+}
+
+get {
+  url: https://api.example.com/users
+}
+
+headers {
+  ~X-Debug: 1
+}
+
+params:query {
+  ~page: 2
+}
+`);
+      const postmanRequest = convertBrunoToPostmanRequest(brunoRequest);
+
+      expect(postmanRequest.header[0]).toMatchObject({ key: 'X-Debug', disabled: true });
+      const url = postmanRequest.url as any;
+      expect(url.query[0]).toMatchObject({ key: 'page', value: '2', disabled: true });
+    });
+
+    it('should convert GraphQL body to Postman graphql mode', async () => {
+      const content = await readFile(join(FIXTURES_DIR, 'graphql-query.bru'));
+      const brunoRequest = parseBrunoFile(content);
+      const postmanRequest = convertBrunoToPostmanRequest(brunoRequest);
+
+      expect(postmanRequest.body?.mode).toBe('graphql');
+      expect(postmanRequest.body?.raw).toBeUndefined();
+      expect(postmanRequest.body?.graphql?.query).toContain('country(code: $code)');
+      expect(postmanRequest.body?.graphql?.variables).toContain('"code": "FR"');
+    });
+
+    it('should convert multipart-form body to Postman formdata', async () => {
+      const content = await readFile(join(FIXTURES_DIR, 'form-bodies.bru'));
+      const brunoRequest = parseBrunoFile(content);
+      const postmanRequest = convertBrunoToPostmanRequest(brunoRequest);
+
+      expect(postmanRequest.body?.mode).toBe('formdata');
+      expect(postmanRequest.body?.formdata).toHaveLength(6);
+      expect(postmanRequest.body?.formdata?.[1]).toMatchObject({
+        key: 'callback',
+        value: 'https://example.com/hooks/avatar?source=bruno',
+        type: 'text',
+      });
+      expect(postmanRequest.body?.formdata?.[2]).toMatchObject({
+        key: 'avatar',
+        src: '/tmp/avatar.png',
+        type: 'file',
+        disabled: false,
+      });
+      expect(postmanRequest.body?.formdata?.[5]).toMatchObject({ key: 'debug', disabled: true });
+    });
+
+    it('should convert body:file to a Postman file body with its content type', async () => {
+      const content = await readFile(join(FIXTURES_DIR, 'body-file.bru'));
+      const brunoRequest = parseBrunoFile(content);
+      const postmanRequest = convertBrunoToPostmanRequest(brunoRequest);
+
+      expect(postmanRequest.body).toEqual({ mode: 'file', file: { src: 'assets/avatar.png' } });
+      expect(postmanRequest.header).toEqual([
+        { key: 'Content-Type', value: 'image/png', type: 'text', disabled: false },
+      ]);
+    });
+
+    it('should keep an explicit Content-Type header for file bodies', async () => {
+      const content = await readFile(join(FIXTURES_DIR, 'body-file.bru'));
+      const brunoRequest = {
+        ...parseBrunoFile(content),
+        headers: [{ key: 'content-type', value: 'application/octet-stream', enabled: true }],
+      };
+      const postmanRequest = convertBrunoToPostmanRequest(brunoRequest);
+
+      expect(postmanRequest.header).toHaveLength(1);
+      expect(postmanRequest.header[0].value).toBe('application/octet-stream');
+    });
+
+    it('should keep colons in form-urlencoded values', () => {
+      const brunoRequest = parseBrunoFile(`
+meta {
+  name: Token
+  type: http
+}
+
+post {
+  url: https://auth.example.com/token
+}
+
+body:form-urlencoded {
+  redirect_uri: https://app.example.com/callback
+  ~scope: admin
+}
+`);
+      const postmanRequest = convertBrunoToPostmanRequest(brunoRequest);
+
+      expect(postmanRequest.body?.mode).toBe('urlencoded');
+      expect(postmanRequest.body?.urlencoded).toEqual([
+        {
+          key: 'redirect_uri',
+          value: 'https://app.example.com/callback',
+          type: 'text',
+          disabled: false,
+        },
+        { key: 'scope', value: 'admin', type: 'text', disabled: true },
+      ]);
+    });
+
+    it('should convert oauth2 authorization code with PKCE', async () => {
+      const content = await readFile(join(FIXTURES_DIR, 'oauth2-auth-code.bru'));
+      const brunoRequest = parseBrunoFile(content);
+      const postmanRequest = convertBrunoToPostmanRequest(brunoRequest);
+
+      expect(postmanRequest.auth?.type).toBe('oauth2');
+      const attributes = Object.fromEntries(
+        (postmanRequest.auth?.oauth2 ?? []).map((attribute) => [attribute.key, attribute.value])
+      );
+      expect(attributes).toMatchObject({
+        grant_type: 'authorization_code_with_pkce',
+        accessTokenUrl: 'https://auth.example.com/oauth/token',
+        authUrl: 'https://auth.example.com/authorize',
+        redirect_uri: 'https://app.example.com/callback',
+        clientId: '{{clientId}}',
+        clientSecret: '{{clientSecret}}',
+        scope: 'read:profile write:profile',
+        state: 'xyz',
+        challengeAlgorithm: 'S256',
+      });
+    });
+
+    it('should convert oauth2 client credentials and password grants', () => {
+      const toRequest = (grantType: string): string => `
+meta {
+  name: Token
+  type: http
+}
+
+get {
+  url: https://api.example.com/me
+}
+
+auth:oauth2 {
+  grant_type: ${grantType}
+  access_token_url: https://auth.example.com/token
+  client_id: app
+  client_secret: secret
+  username: jane
+  password: pa55
+  credentials_placement: basic_auth_header
+}
+`;
+      const clientCredentials = convertBrunoToPostmanRequest(
+        parseBrunoFile(toRequest('client_credentials'))
+      );
+      const password = convertBrunoToPostmanRequest(parseBrunoFile(toRequest('password')));
+
+      const keys = (clientCredentials.auth?.oauth2 ?? []).map((attribute) => attribute.key);
+      expect(keys).not.toContain('username');
+      expect(clientCredentials.auth?.oauth2).toContainEqual({
+        key: 'grant_type',
+        value: 'client_credentials',
+        type: 'string',
+      });
+      expect(clientCredentials.auth?.oauth2).toContainEqual({
+        key: 'client_authentication',
+        value: 'header',
+        type: 'string',
+      });
+      expect(password.auth?.oauth2).toContainEqual({
+        key: 'grant_type',
+        value: 'password_credentials',
+        type: 'string',
+      });
+      expect(password.auth?.oauth2).toContainEqual({
+        key: 'username',
+        value: 'jane',
+        type: 'string',
+      });
+      expect(password.auth?.oauth2).toContainEqual({
+        key: 'addTokenTo',
+        value: 'header',
+        type: 'string',
+      });
+    });
+
+    it('should add the oauth2 token to the query params when Bruno puts it in the URL', () => {
+      const content = `
+meta {
+  name: Token
+  type: http
+}
+
+get {
+  url: https://api.example.com/me
+}
+
+auth:oauth2 {
+  grant_type: client_credentials
+  access_token_url: https://auth.example.com/token
+  client_id: app
+  token_placement: url
+}
+`;
+      const postmanRequest = convertBrunoToPostmanRequest(parseBrunoFile(content));
+
+      expect(postmanRequest.auth?.oauth2).toContainEqual({
+        key: 'addTokenTo',
+        value: 'queryParams',
+        type: 'string',
+      });
+    });
+
+    it('should convert awsv4 authentication', async () => {
+      const content = await readFile(join(FIXTURES_DIR, 'awsv4-auth.bru'));
+      const brunoRequest = parseBrunoFile(content);
+      const postmanRequest = convertBrunoToPostmanRequest(brunoRequest);
+
+      expect(postmanRequest.auth?.type).toBe('awsv4');
+      expect(postmanRequest.auth?.awsv4).toEqual([
+        { key: 'accessKey', value: '{{awsAccessKeyId}}', type: 'string' },
+        { key: 'secretKey', value: '{{awsSecretAccessKey}}', type: 'string' },
+        { key: 'sessionToken', value: '{{awsSessionToken}}', type: 'string' },
+        { key: 'service', value: 'lambda', type: 'string' },
+        { key: 'region', value: 'eu-west-1', type: 'string' },
+      ]);
+      expect(convertAuthScript(brunoRequest.auth!)).toEqual([]);
+    });
+
+    it('should convert digest and ntlm authentication natively', () => {
+      const digest = convertAuth({ type: 'digest', digest: { username: 'jane', password: 'pw' } });
+      const ntlm = convertAuth({
+        type: 'ntlm',
+        ntlm: { username: 'jane', password: 'pw', domain: 'CORP' },
+      });
+
+      expect(digest.type).toBe('digest');
+      expect(digest.digest).toContainEqual({ key: 'username', value: 'jane', type: 'string' });
+      expect(ntlm.type).toBe('ntlm');
+      expect(ntlm.ntlm).toContainEqual({ key: 'domain', value: 'CORP', type: 'string' });
+    });
+
+    it('should generate a helper script with a data-loss warning for wsse', () => {
+      const wsse = { type: 'wsse' as const, wsse: { username: 'jane', password: '{{pw}}' } };
+
+      expect(convertAuth(wsse).type).toBe('noauth');
+      const warnings: string[] = [];
+      const script = convertAuthScript(wsse, warnings).join('\n');
+      expect(script).toContain('// WARNING: data loss');
+      expect(script).toContain('pm.variables.replaceIn("{{pw}}")');
+      expect(script).toContain("key: 'X-WSSE'");
+      expect(warnings).toEqual([
+        'Postman has no WSSE auth, the X-WSSE header is generated by a pre-request script',
+      ]);
+    });
+
+    it('should warn that awsv4 profiles cannot be used by Postman', () => {
+      const warnings: string[] = [];
+      const awsv4 = {
+        accessKeyId: '',
+        secretAccessKey: '',
+        service: 's3',
+        region: 'eu-west-1',
+        profileName: 'dev',
+      };
+      const script = convertAuthScript({ type: 'awsv4', awsv4 }, warnings);
+
+      expect(script).toEqual([
+        expect.stringContaining('// WARNING: data loss - AWS profile "dev"'),
+      ]);
+      expect(warnings).toEqual([
+        'AWS profile "dev" cannot be used by Postman, set the access keys manually',
+      ]);
+    });
+
+    it('should carry docs into the request description', async () => {
+      const content = await readFile(join(FIXTURES_DIR, 'with-scripts.bru'));
+      const brunoRequest = parseBrunoFile(content);
+      const postmanRequest = convertBrunoToPostmanRequest(brunoRequest);
+
+      expect(postmanRequest.description).toBe(brunoRequest.docs);
+      expect(postmanRequest.description).toMatch(/^This request fetches user details/);
+    });
+
+    it('should list tags in a description footer', async () => {
+      const content = await readFile(join(FIXTURES_DIR, 'with-tags.bru'));
+      const postmanRequest = convertBrunoToPostmanRequest(parseBrunoFile(content));
+
+      expect(postmanRequest.description).toBe(
+        'Creates a draft invoice.\n\nTags: `smoke`, `billing`'
+      );
+    });
+
     it('should handle request without body', async () => {
       const content = await readFile(join(FIXTURES_DIR, 'simple-get.bru'));
       const brunoRequest = parseBrunoFile(content);
@@ -94,6 +426,7 @@ describe('requestConverter', () => {
       const postmanRequest = convertBrunoToPostmanRequest(brunoRequest);
 
       expect(postmanRequest.auth).toBeUndefined();
+      expect(postmanRequest.description).toBeUndefined();
     });
   });
 });
@@ -0,0 +1,44 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  normalizeRequestPath,
+  buildSendRequestOptions,
+} from '../../../src/converters/runRequestConverter.js';
+import { BrunoRequest } from '../../../src/types/bruno.types.js';
+
+describe('runRequestConverter', () => {
+  describe('normalizeRequestPath', () => {
+    it('should strip leading slashes and the .bru extension', () => {
+      expect(normalizeRequestPath('./auth/login.bru')).toBe('auth/login');
+      expect(normalizeRequestPath('/auth/login')).toBe('auth/login');
+      expect(normalizeRequestPath('auth\\login')).toBe('auth/login');
+    });
+  });
+
+  describe('buildSendRequestOptions', () => {
+    it('should build url, method, enabled headers and body', () => {
+      const request: BrunoRequest = {
+        meta: { name: 'Get User', type: 'http' },
+        method: 'PUT',
+        url: '{{baseUrl}}/users/:id?verbose=true',
+        headers: [
+          { key: 'Accept', value: 'application/json', enabled: true },
+          { key: 'X-Debug', value: '1', enabled: false },
+        ],
+        queryParams: [],
+        pathParams: [{ key: 'id', value: '{{userId}}', enabled: true }],
+        body: { mode: 'json', content: '{"active": true}' },
+      };
+
+      expect(buildSendRequestOptions(request)).toEqual({
+        url: '{{baseUrl}}/users/{{userId}}?verbose=true',
+        method: 'PUT',
+        header: [{ key: 'Accept', value: 'application/json' }],
+        body: {
+          mode: 'raw',
+          raw: '{"active": true}',
+          options: { raw: { language: 'json' } },
+        },
+      });
+    });
+  });
+});
@@ -6,19 +6,19 @@ import {
 
 describe('scriptConverter', () => {
   describe('convertPreRequestScript', () => {
-    it('should convert bru.setVar to pm.environment.set', () => {
+    it('should convert bru.setVar to pm.collectionVariables.set', () => {
       const brunoScript = 'bru.setVar("timestamp", Date.now());';
       const result = convertPreRequestScript(brunoScript);
 
-      expect(result.script).toContain('pm.environment.set("timestamp", Date.now());');
+      expect(result.script).toContain('pm.collectionVariables.set("timestamp", Date.now());');
       expect(result.warnings).toHaveLength(0);
     });
 
-    it('should convert bru.getVar to pm.environment.get', () => {
+    it('should convert bru.getVar to pm.collectionVariables.get', () => {
       const brunoScript = 'const token = bru.getVar("token");';
       const result = convertPreRequestScript(brunoScript);
 
-      expect(result.script).toContain('const token = pm.environment.get("token");');
+      expect(result.script).toContain('const token = pm.collectionVariables.get("token");');
       expect(result.warnings).toHaveLength(0);
     });
 
@@ -36,6 +36,60 @@ describe('scriptConverter', () => {
       expect(result.script).toContain('const key = pm.environment.get("apiKey");');
     });
 
+    it('should map every Bruno variable scope to its default Postman scope', () => {
+      const brunoScript = `if (bru.hasVar("token")) bru.deleteVar("token");
+bru.setGlobalEnvVar("region", bru.getGlobalEnvVar("fallbackRegion"));`;
+      const result = convertPreRequestScript(brunoScript);
+
+      expect(result.script).toEqual([
+        'if (pm.collectionVariables.has("token")) pm.collectionVariables.unset("token");',
+        'pm.globals.set("region", pm.globals.get("fallbackRegion"));',
+      ]);
+      expect(result.warnings).toHaveLength(0);
+    });
+
+    it('should use a custom variable scope mapping', () => {
+      const brunoScript = 'bru.setVar("page", bru.getEnvVar("firstPage"));';
+      const result = convertPreRequestScript(brunoScript, {
+        runtime: 'variables',
+        env: 'collectionVariables',
+        globals: 'globals',
+      });
+
+      expect(result.script).toEqual([
+        'pm.variables.set("page", pm.collectionVariables.get("firstPage"));',
+      ]);
+    });
+
+    it('should read bru.getProcessEnv from the environment with a warning', () => {
+      const brunoScript = 'const secret = bru.getProcessEnv("API_SECRET");';
+      const result = convertPreRequestScript(brunoScript);
+
+      expect(result.script).toEqual([
+        '// WARNING: data loss - Postman has no process environment, bru.getProcessEnv() values are read from pm.environment',
+        'const secret = pm.environment.get("API_SECRET");',
+      ]);
+      expect(result.warnings).toEqual(['bru.getProcessEnv() has no Postman equivalent']);
+    });
+
+    it('should flag req calls for review', () => {
+      const brunoScript = 'req.setHeader("X-Id", bru.getVar("id"));';
+      const result = convertPreRequestScript(brunoScript);
+
+      expect(result.script).toEqual([
+        '// WARNING: partial conversion - review manually',
+        'req.setHeader("X-Id", pm.collectionVariables.get("id"));',
+      ]);
+    });
+
+    it('should only replace whole API names', () => {
+      const brunoScript = 'bru.getVars();';
+      const result = convertPreRequestScript(brunoScript);
+
+      expect(result.script).toContain('bru.getVars();');
+      expect(result.script[0]).toBe('// WARNING: partial conversion - review manually');
+    });
+
     it('should handle multiline scripts', () => {
       const brunoScript = `
 bru.setVar("timestamp", Date.now());
@@ -45,8 +99,8 @@ console.log("Token:", token);
       const result = convertPreRequestScript(brunoScript);
 
       const scriptContent = result.script.join('\n');
-      expect(scriptContent).toContain('pm.environment.set');
-      expect(scriptContent).toContain('pm.environment.get');
+      expect(scriptContent).toContain('pm.collectionVariables.set');
+      expect(scriptContent).toContain('pm.collectionVariables.get');
       expect(scriptContent).toContain('console.log');
     });
 
@@ -101,7 +155,37 @@ test("Check response", function() {
       expect(scriptContent).toContain('pm.response.json()');
     });
 
-    it('should convert bru.setVar in tests to pm.environment.set', () => {
+    it('should convert the res query helper and getters to pm.response', () => {
+      const brunoScript = `
+test("Items", function() {
+  expect(res.getStatus()).to.equal(200);
+  expect(res.getHeader("content-type")).to.contain("json");
+  expect(res.getResponseTime()).to.be.below(500);
+  expect(res('data.items[0].id')).to.equal(1);
+  expect(res()).to.be.an("object");
+});
+`;
+      const result = convertTestScript(brunoScript);
+
+      const scriptContent = result.script.join('\n');
+      expect(scriptContent).toContain('pm.expect(pm.response.code).to.equal(200);');
+      expect(scriptContent).toContain('pm.expect(pm.response.headers.get("content-type"))');
+      expect(scriptContent).toContain('pm.expect(pm.response.responseTime).to.be.below(500);');
+      expect(scriptContent).toContain(
+        "pm.expect(_.get(pm.response.json(), 'data.items[0].id')).to.equal(1);"
+      );
+      expect(scriptContent).toContain('pm.expect(pm.response.json()).to.be.an("object");');
+      expect(result.warnings).toHaveLength(0);
+    });
+
+    it('should not convert getters of other objects ending in res', () => {
+      const brunoScript = 'const status = myres.getStatus() + xres.getBody().id;';
+      const result = convertTestScript(brunoScript);
+
+      expect(result.script.join('\n')).toBe(brunoScript);
+    });
+
+    it('should convert bru.setVar in tests to pm.collectionVariables.set', () => {
       const brunoScript = `
 test("Save user ID", function() {
   bru.setVar("userId", res.body.id);
@@ -109,7 +193,7 @@ test("Save user ID", function() {
 `;
       const result = convertTestScript(brunoScript);
 
-      expect(result.script.join('\n')).toContain('pm.environment.set');
+      expect(result.script.join('\n')).toContain('pm.collectionVariables.set');
     });
 
     it('should handle expect assertions', () => {
@@ -0,0 +1,37 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  convertSettings,
+  convertSettingsWarnings,
+} from '../../../src/converters/settingsConverter.js';
+
+describe('settingsConverter', () => {
+  describe('convertSettings', () => {
+    it('should map redirect and URL encoding settings to protocolProfileBehavior', () => {
+      expect(
+        convertSettings({
+          encodeUrl: false,
+          followRedirects: false,
+          maxRedirects: 3,
+          timeout: 5000,
+        })
+      ).toEqual({ disableUrlEncoding: true, followRedirects: false, maxRedirects: 3 });
+      expect(convertSettings({ encodeUrl: true })).toEqual({ disableUrlEncoding: false });
+    });
+
+    it('should return no behavior for empty settings', () => {
+      expect(convertSettings({})).toEqual({});
+    });
+  });
+
+  describe('convertSettingsWarnings', () => {
+    it('should warn about a timeout Postman cannot express', () => {
+      expect(convertSettingsWarnings({ timeout: 5000 })).toEqual([
+        "Postman has no per-request timeout, set the 5000 ms timeout in Postman's settings",
+      ]);
+    });
+
+    it('should not warn for the default timeout or mapped settings', () => {
+      expect(convertSettingsWarnings({ timeout: 0, followRedirects: true })).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  convertPreRequestVars,
+  convertPostResponseVars,
+} from '../../../src/converters/variableConverter.js';
+
+describe('variableConverter', () => {
+  describe('convertPreRequestVars', () => {
+    it('should convert vars to pm.variables.set calls', () => {
+      const result = convertPreRequestVars([
+        { key: 'page', value: '1', enabled: true },
+        { key: 'tenant', value: 'acme', enabled: true },
+      ]);
+
+      expect(result).toEqual([
+        'pm.variables.set("page", "1");',
+        'pm.variables.set("tenant", "acme");',
+      ]);
+    });
+
+    it('should resolve variable references at runtime', () => {
+      const result = convertPreRequestVars([
+        { key: 'userUrl', value: '{{baseUrl}}/users', enabled: true },
+      ]);
+
+      expect(result).toEqual([
+        'pm.variables.set("userUrl", pm.variables.replaceIn("{{baseUrl}}/users"));',
+      ]);
+    });
+
+    it('should skip disabled vars', () => {
+      expect(convertPreRequestVars([{ key: 'page', value: '1', enabled: false }])).toEqual([]);
+    });
+  });
+
+  describe('convertPostResponseVars', () => {
+    it('should capture response expressions into collection variables', () => {
+      const result = convertPostResponseVars([
+        { key: 'token', value: 'res.body.access_token', enabled: true },
+        { key: 'requestId', value: 'res.headers.x-request-id', enabled: true },
+        { key: 'lastStatus', value: 'res.status', enabled: true },
+      ]);
+
+      expect(result).toEqual([
+        'pm.collectionVariables.set("token", pm.response.json().access_token);',
+        'pm.collectionVariables.set("requestId", pm.response.headers.get("x-request-id"));',
+        'pm.collectionVariables.set("lastStatus", pm.response.code);',
+      ]);
+    });
+
+    it('should convert res queries and getters in captured values', () => {
+      const result = convertPostResponseVars([
+        { key: 'token', value: 'res("data.token")', enabled: true },
+        { key: 'requestId', value: "res.getHeader('x-request-id')", enabled: true },
+        { key: 'userId', value: 'res.getBody().user.id', enabled: true },
+        { key: 'lastStatus', value: 'res.getStatus()', enabled: true },
+      ]);
+
+      expect(result).toEqual([
+        'pm.collectionVariables.set("token", _.get(pm.response.json(), "data.token"));',
+        'pm.collectionVariables.set("requestId", pm.response.headers.get(\'x-request-id\'));',
+        'pm.collectionVariables.set("userId", pm.response.json().user.id);',
+        'pm.collectionVariables.set("lastStatus", pm.response.code);',
+      ]);
+    });
+
+    it('should use the Postman scope mapped to runtime variables', () => {
+      const result = convertPostResponseVars(
+        [{ key: 'token', value: 'res.body.token', enabled: true }],
+        { runtime: 'environment', env: 'environment', globals: 'globals' }
+      );
+
+      expect(result).toEqual(['pm.environment.set("token", pm.response.json().token);']);
+    });
+
+    it('should skip disabled vars', () => {
+      const result = convertPostResponseVars([
+        { key: 'token', value: 'res.body.token', enabled: false },
+      ]);
+
+      expect(result).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  DEFAULT_VARIABLE_SCOPES,
+  getVariableApiMappings,
+  parseVariableScopeMapping,
+} from '../../../src/converters/variableScopeConverter.js';
+
+describe('variableScopeConverter', () => {
+  describe('getVariableApiMappings', () => {
+    it('should map runtime, env and global variables to their default scopes', () => {
+      const mappings = getVariableApiMappings();
+
+      expect(mappings['bru.setVar']).toBe('pm.collectionVariables.set');
+      expect(mappings['bru.deleteVar']).toBe('pm.collectionVariables.unset');
+      expect(mappings['bru.getEnvVar']).toBe('pm.environment.get');
+      expect(mappings['bru.getProcessEnv']).toBe('pm.environment.get');
+      expect(mappings['bru.setGlobalEnvVar']).toBe('pm.globals.set');
+    });
+  });
+
+  describe('parseVariableScopeMapping', () => {
+    it('should override the listed scopes only', () => {
+      expect(parseVariableScopeMapping('runtime=variables, globals=environment')).toEqual({
+        runtime: 'variables',
+        env: 'environment',
+        globals: 'environment',
+      });
+      expect(parseVariableScopeMapping('')).toEqual(DEFAULT_VARIABLE_SCOPES);
+    });
+
+    it('should reject unknown scopes', () => {
+      expect(() => parseVariableScopeMapping('session=variables')).toThrow(
+        'Invalid variable scope "session": expected one of runtime, env, globals'
+      );
+      expect(() => parseVariableScopeMapping('runtime=locals')).toThrow(
+        'Invalid Postman scope "locals": expected one of variables, collectionVariables, environment, globals'
+      );
+    });
+  });
+});
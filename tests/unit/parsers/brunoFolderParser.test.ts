@@ -0,0 +1,94 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseBrunoFolderFile } from '../../../src/parsers/brunoFolderParser.js';
+
+describe('brunoFolderParser', () => {
+  describe('parseBrunoFolderFile', () => {
+    it('should parse folder meta', () => {
+      const result = parseBrunoFolderFile(`
+meta {
+  name: Users
+  seq: 2
+}
+`);
+
+      expect(result.name).toBe('Users');
+      expect(result.seq).toBe(2);
+    });
+
+    it('should parse auth mode and matching auth section', () => {
+      const result = parseBrunoFolderFile(`
+auth {
+  mode: bearer
+}
+
+auth:basic {
+  username: old
+  password: old
+}
+
+auth:bearer {
+  token: {{token}}
+}
+`);
+
+      expect(result.auth).toEqual({ type: 'bearer', bearer: { token: '{{token}}' } });
+    });
+
+    it('should parse inherit and none auth modes', () => {
+      expect(parseBrunoFolderFile('auth {\n  mode: inherit\n}\n').auth).toEqual({
+        type: 'inherit',
+      });
+      expect(parseBrunoFolderFile('auth {\n  mode: none\n}\n').auth).toEqual({ type: 'none' });
+    });
+
+    it('should parse shared headers, scripts, vars and docs', () => {
+      const result = parseBrunoFolderFile(`
+headers {
+  X-Tenant: acme
+  ~X-Debug: 1
+}
+
+vars:pre-request {
+  apiVersion: v2
+}
+
+vars:post-response {
+  lastRequestId: res.headers.x-request-id
+}
+
+script:pre-request {
+  bru.setVar("startedAt", Date.now());
+}
+
+script:post-response {
+  bru.setVar("finishedAt", Date.now());
+}
+
+tests {
+  test("ok", function() {});
+}
+
+docs {
+  Shared settings for the users API.
+}
+`);
+
+      expect(result.headers).toEqual([
+        { key: 'X-Tenant', value: 'acme', enabled: true },
+        { key: 'X-Debug', value: '1', enabled: false },
+      ]);
+      expect(result.preRequestVars).toEqual([{ key: 'apiVersion', value: 'v2', enabled: true }]);
+      expect(result.postResponseVars).toEqual([
+        { key: 'lastRequestId', value: 'res.headers.x-request-id', enabled: true },
+      ]);
+      expect(result.preRequestScript).toContain('bru.setVar("startedAt"');
+      expect(result.postResponseScript).toContain('bru.setVar("finishedAt"');
+      expect(result.testScript).toContain('test("ok"');
+      expect(result.docs).toContain('Shared settings for the users API.');
+    });
+
+    it('should accept files without any section', () => {
+      expect(parseBrunoFolderFile('')).toEqual({ auth: undefined });
+    });
+  });
+});
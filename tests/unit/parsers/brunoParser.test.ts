@@ -17,6 +17,54 @@ describe('brunoParser', () => {
       expect(result.url).toBe('https://api.example.com/users');
     });
 
+    it('should parse docs as un-indented markdown', async () => {
+      const content = await readFile(join(FIXTURES_DIR, 'with-scripts.bru'));
+      const result = parseBrunoFile(content);
+
+      expect(result.docs).toMatch(/^This request fetches user details/);
+      expect(result.docs).toContain('\nVariables used:\n- baseUrl: API base URL\n');
+      expect(result.docs).toMatch(/saves the user ID\.$/);
+    });
+
+    it('should parse meta tags written one per line', async () => {
+      const content = await readFile(join(FIXTURES_DIR, 'with-tags.bru'));
+      const result = parseBrunoFile(content);
+
+      expect(result.meta.tags).toEqual(['smoke', 'billing']);
+      expect(result.meta.seq).toBe(2);
+    });
+
+    it('should parse inline meta tags', () => {
+      const result = parseBrunoFile(`meta {
+  name: Health
+  type: http
+  tags: [smoke, ops]
+}
+
+get {
+  url: https://api.example.com/health
+}`);
+
+      expect(result.meta.tags).toEqual(['smoke', 'ops']);
+    });
+
+    it('should report an unterminated tag list', () => {
+      expect(() =>
+        parseBrunoFile(`meta {
+  name: Health
+  type: http
+  tags: [
+    smoke
+}
+
+get {
+  url: https://api.example.com/health
+}`)
+      ).toThrow(
+        'Unterminated list value, expected a closing "]" in block "meta" (line 4, column 3)'
+      );
+    });
+
     it('should parse POST request with JSON body', async () => {
       const content = await readFile(join(FIXTURES_DIR, 'post-with-body.bru'));
       const result = parseBrunoFile(content);
@@ -87,6 +135,108 @@ describe('brunoParser', () => {
       expect(result.auth?.bearer?.token).toBe('{{token}}');
     });
 
+    it('should parse oauth2 authentication', async () => {
+      const content = await readFile(join(FIXTURES_DIR, 'oauth2-auth-code.bru'));
+      const result = parseBrunoFile(content);
+
+      expect(result.auth?.type).toBe('oauth2');
+      expect(result.auth?.oauth2).toMatchObject({
+        grantType: 'authorization_code',
+        accessTokenUrl: 'https://auth.example.com/oauth/token',
+        authorizationUrl: 'https://auth.example.com/authorize',
+        callbackUrl: 'https://app.example.com/callback',
+        clientId: '{{clientId}}',
+        clientSecret: '{{clientSecret}}',
+        scope: 'read:profile write:profile',
+        state: 'xyz',
+        pkce: true,
+      });
+    });
+
+    it('should parse awsv4 authentication', async () => {
+      const content = await readFile(join(FIXTURES_DIR, 'awsv4-auth.bru'));
+      const result = parseBrunoFile(content);
+
+      expect(result.auth?.type).toBe('awsv4');
+      expect(result.auth?.awsv4).toEqual({
+        accessKeyId: '{{awsAccessKeyId}}',
+        secretAccessKey: '{{awsSecretAccessKey}}',
+        sessionToken: '{{awsSessionToken}}',
+        service: 'lambda',
+        region: 'eu-west-1',
+        profileName: undefined,
+      });
+    });
+
+    it('should parse digest, ntlm and wsse authentication', () => {
+      const parseAuth = (type: string): ReturnType<typeof parseBrunoFile>['auth'] =>
+        parseBrunoFile(`
+meta {
+  name: Legacy
+  type: http
+}
+
+get {
+  url: https://legacy.example.com
+}
+
+auth:${type} {
+  username: jane
+  password: secret
+  domain: CORP
+}
+`).auth;
+
+      expect(parseAuth('digest')?.digest).toEqual({ username: 'jane', password: 'secret' });
+      expect(parseAuth('ntlm')?.ntlm).toEqual({
+        username: 'jane',
+        password: 'secret',
+        domain: 'CORP',
+      });
+      expect(parseAuth('wsse')?.wsse).toEqual({ username: 'jane', password: 'secret' });
+    });
+
+    it('should parse inherited auth mode', () => {
+      const content = `
+meta {
+  name: Inherit
+  type: http
+}
+
+get {
+  url: https://api.example.com
+  auth: inherit
+}
+
+auth:bearer {
+  token: stale
+}
+`;
+      const result = parseBrunoFile(content);
+
+      expect(result.auth).toEqual({ type: 'inherit' });
+    });
+
+    it('should read the auth mode from an auth block', () => {
+      const content = `
+meta {
+  name: Inherit
+  type: http
+}
+
+get {
+  url: https://api.example.com
+}
+
+auth {
+  mode: inherit
+}
+`;
+      const result = parseBrunoFile(content);
+
+      expect(result.auth).toEqual({ type: 'inherit' });
+    });
+
     it('should throw error for invalid Bruno file (missing meta)', () => {
       const invalidContent = `
 get {
@@ -106,6 +256,178 @@ meta {
       expect(() => parseBrunoFile(invalidContent)).toThrow('HTTP method');
     });
 
+    it('should keep sections intact around braces in bodies and scripts', async () => {
+      const jsonContent = await readFile(
+        join(FIXTURES_DIR, 'pathological/braces-in-json-strings.bru')
+      );
+      const jsonRequest = parseBrunoFile(jsonContent);
+
+      expect(JSON.parse(jsonRequest.body?.content ?? '')).toMatchObject({ open: '{', close: '}' });
+      expect(jsonRequest.preRequestScript).toContain('bru.setVar("afterBody", true);');
+
+      const scriptContent = await readFile(
+        join(FIXTURES_DIR, 'pathological/braces-in-scripts.bru')
+      );
+      const scriptRequest = parseBrunoFile(scriptContent);
+
+      expect(scriptRequest.preRequestScript).toContain("const brace = '}';");
+      expect(scriptRequest.testScript).toContain('to.not.include("}")');
+    });
+
+    it("should parse multiline ''' values in headers, params and vars", async () => {
+      const content = await readFile(join(FIXTURES_DIR, 'multiline-values.bru'));
+      const result = parseBrunoFile(content);
+
+      expect(result.headers).toEqual([
+        { key: 'Accept', value: 'application/json', enabled: true },
+        {
+          key: 'X-Client-Cert',
+          value: '-----BEGIN CERTIFICATE-----\nMIIBszCCAVmgAwIBAgIUQ\n-----END CERTIFICATE-----',
+          enabled: true,
+        },
+      ]);
+      expect(result.queryParams).toEqual([
+        { key: 'filter', value: 'status:active\n  AND owner:me', enabled: true },
+      ]);
+      expect(result.preRequestVars).toEqual([
+        {
+          key: 'payload',
+          value: '{\n  "name": "test",\n  "tags": ["a", "b"]\n}',
+          enabled: true,
+        },
+        { key: 'disabled', value: 'unused', enabled: false },
+        { key: 'after', value: 'value', enabled: true },
+      ]);
+    });
+
+    it("should keep closing braces inside multiline ''' values", async () => {
+      const content = await readFile(join(FIXTURES_DIR, 'pathological/multiline-values.bru'));
+      const result = parseBrunoFile(content);
+
+      expect(result.preRequestVars).toEqual([
+        { key: 'payload', value: '{\n  "a": "}"\n}\n}', enabled: true },
+        { key: 'after', value: 'value', enabled: true },
+      ]);
+    });
+
+    it('should parse request settings', async () => {
+      const content = await readFile(join(FIXTURES_DIR, 'settings.bru'));
+      const result = parseBrunoFile(content);
+
+      expect(result.settings).toEqual({
+        encodeUrl: false,
+        followRedirects: false,
+        maxRedirects: 3,
+        timeout: 5000,
+      });
+    });
+
+    it('should parse saved response examples', async () => {
+      const content = await readFile(join(FIXTURES_DIR, 'with-examples.bru'));
+      const result = parseBrunoFile(content);
+
+      expect(result.examples).toHaveLength(2);
+      expect(result.examples?.[0]).toEqual({
+        name: 'User found',
+        description: 'Returns the user',
+        request: {
+          url: '{{baseUrl}}/users/1',
+          method: 'GET',
+          headers: [
+            { key: 'Accept', value: 'application/json', enabled: true },
+            { key: 'X-Debug', value: 'true', enabled: false },
+          ],
+          queryParams: [],
+        },
+        response: {
+          code: 200,
+          status: 'OK',
+          headers: [{ key: 'Content-Type', value: 'application/json', enabled: true }],
+          bodyType: 'json',
+          body: '{\n  "id": 1,\n  "name": "Ada"\n}',
+        },
+      });
+      expect(result.examples?.[1].request).toMatchObject({
+        method: 'POST',
+        body: { mode: 'json', content: '{\n  "name": "Ada"\n}' },
+      });
+      expect(result.examples?.[1].response).toMatchObject({
+        code: 409,
+        body: 'User already exists',
+      });
+    });
+
+    it('should parse body:file entries', async () => {
+      const content = await readFile(join(FIXTURES_DIR, 'body-file.bru'));
+      const result = parseBrunoFile(content);
+
+      expect(result.body?.mode).toBe('file');
+      expect(result.body?.files).toEqual([
+        { filePath: 'assets/old-avatar.jpg', contentType: 'image/jpeg', selected: false },
+        { filePath: 'assets/avatar.png', contentType: 'image/png', selected: true },
+      ]);
+    });
+
+    it('should report the location of an invalid entry', () => {
+      const content = `meta {
+  name: Test
+  type: http
+}
+
+headers {
+  Accept: application/json
+  X-Broken
+}
+`;
+      expect(() => parseBrunoFile(content, 'requests/test.bru')).toThrow(
+        expect.objectContaining({
+          name: 'BrunoParseError',
+          file: 'requests/test.bru',
+          line: 8,
+          column: 3,
+          block: 'headers',
+          message: 'Expected a "key: value" entry in block "headers" (line 8, column 3)',
+        })
+      );
+    });
+
+    it('should report the method block when the URL is missing', () => {
+      const content = `meta {
+  name: Test
+  type: http
+}
+
+post {
+  body: json
+}
+`;
+      expect(() => parseBrunoFile(content)).toThrow(
+        expect.objectContaining({ line: 6, column: 1, block: 'post' })
+      );
+    });
+
+    it('should report unclosed blocks and content outside of blocks', () => {
+      const unclosed = `meta {
+  name: Test
+  type: http
+}
+
+get {
+  url: https://api.example.com
+`;
+      expect(() => parseBrunoFile(unclosed)).toThrow('Unclosed block in block "get" (line 6');
+
+      const stray = `meta {
+  name: Test
+  type: http
+}
+}
+`;
+      expect(() => parseBrunoFile(stray)).toThrow(
+        expect.objectContaining({ reason: 'Unexpected content outside of a block', line: 5 })
+      );
+    });
+
     it('should handle empty sections gracefully', () => {
       const content = `
 meta {
@@ -131,6 +453,192 @@ params:query {
       expect(result.queryParams).toEqual([]);
     });
 
+    it('should mark entries prefixed with ~ as disabled', () => {
+      const content = `
+meta {
+  name: Disabled Entries
+  type: http
+}
+
+get {
+  url: https://api.example.com/users/:id
+}
+
+headers {
+  Accept: application/json
+  ~X-Debug: 1
+}
+
+params:query {
+  ~page: 2
+  limit: 10
+}
+
+params:path {
+  ~id: 42
+}
+`;
+      const result = parseBrunoFile(content);
+
+      expect(result.headers).toEqual([
+        { key: 'Accept', value: 'application/json', enabled: true },
+        { key: 'X-Debug', value: '1', enabled: false },
+      ]);
+      expect(result.queryParams).toEqual([
+        { key: 'page', value: '2', enabled: false },
+        { key: 'limit', value: '10', enabled: true },
+      ]);
+      expect(result.pathParams).toEqual([{ key: 'id', value: '42', enabled: false }]);
+    });
+
+    it('should parse GraphQL query and variables', async () => {
+      const content = await readFile(join(FIXTURES_DIR, 'graphql-query.bru'));
+      const result = parseBrunoFile(content);
+
+      expect(result.meta.type).toBe('graphql');
+      expect(result.body?.mode).toBe('graphql');
+      expect(result.body?.content).toContain('query GetCountry($code: ID!)');
+      expect(result.body?.content).toContain('capital');
+      expect(result.body?.graphqlVariables).toContain('"code": "FR"');
+    });
+
+    it('should parse assert section with operators', () => {
+      const content = `
+meta {
+  name: Assertions
+  type: http
+}
+
+get {
+  url: https://api.example.com/users/1
+}
+
+assert {
+  res.status: eq 200
+  res.body.id: isNumber
+  ~res.body.name: contains John
+  res.body.role: admin
+}
+`;
+      const result = parseBrunoFile(content);
+
+      expect(result.assertions).toEqual([
+        { target: 'res.status', operator: 'eq', value: '200', enabled: true },
+        { target: 'res.body.id', operator: 'isNumber', value: '', enabled: true },
+        { target: 'res.body.name', operator: 'contains', value: 'John', enabled: false },
+        { target: 'res.body.role', operator: 'eq', value: 'admin', enabled: true },
+      ]);
+    });
+
+    it('should parse request vars sections', () => {
+      const content = `
+meta {
+  name: Login
+  type: http
+}
+
+post {
+  url: https://api.example.com/login
+}
+
+vars:pre-request {
+  tenant: acme
+  ~debug: true
+}
+
+vars:post-response {
+  token: res.body.access_token
+}
+`;
+      const result = parseBrunoFile(content);
+
+      expect(result.preRequestVars).toEqual([
+        { key: 'tenant', value: 'acme', enabled: true },
+        { key: 'debug', value: 'true', enabled: false },
+      ]);
+      expect(result.postResponseVars).toEqual([
+        { key: 'token', value: 'res.body.access_token', enabled: true },
+      ]);
+    });
+
+    it('should parse post-response script separately from tests', () => {
+      const content = `
+meta {
+  name: Login
+  type: http
+}
+
+post {
+  url: https://api.example.com/login
+}
+
+script:post-response {
+  bru.setVar("token", res.body.token);
+}
+
+tests {
+  test("ok", function() {});
+}
+`;
+      const result = parseBrunoFile(content);
+
+      expect(result.postResponseScript).toContain('bru.setVar("token", res.body.token);');
+      expect(result.postResponseScript).not.toContain('test(');
+      expect(result.testScript).toContain('test("ok"');
+    });
+
+    it('should parse multipart-form body into structured entries', async () => {
+      const content = await readFile(join(FIXTURES_DIR, 'form-bodies.bru'));
+      const result = parseBrunoFile(content);
+
+      expect(result.body?.mode).toBe('multipart');
+      expect(result.body?.formData).toEqual([
+        { key: 'userId', value: '42', type: 'text', enabled: true },
+        {
+          key: 'callback',
+          value: 'https://example.com/hooks/avatar?source=bruno',
+          type: 'text',
+          enabled: true,
+        },
+        { key: 'avatar', value: '/tmp/avatar.png', type: 'file', enabled: true },
+        { key: 'attachments', value: '/tmp/a.txt', type: 'file', enabled: true },
+        { key: 'attachments', value: '/tmp/b.txt', type: 'file', enabled: true },
+        { key: 'debug', value: 'true', type: 'text', enabled: false },
+      ]);
+    });
+
+    it('should parse form-urlencoded body into structured entries', () => {
+      const content = `
+meta {
+  name: Token
+  type: http
+}
+
+post {
+  url: https://auth.example.com/token
+}
+
+body:form-urlencoded {
+  grant_type: client_credentials
+  redirect_uri: https://app.example.com/callback
+  ~scope: admin
+}
+`;
+      const result = parseBrunoFile(content);
+
+      expect(result.body?.mode).toBe('form-urlencoded');
+      expect(result.body?.formData).toEqual([
+        { key: 'grant_type', value: 'client_credentials', type: 'text', enabled: true },
+        {
+          key: 'redirect_uri',
+          value: 'https://app.example.com/callback',
+          type: 'text',
+          enabled: true,
+        },
+        { key: 'scope', value: 'admin', type: 'text', enabled: false },
+      ]);
+    });
+
     it('should parse body with multiline JSON', async () => {
       const content = await readFile(join(FIXTURES_DIR, 'post-with-body.bru'));
       const result = parseBrunoFile(content);
@@ -0,0 +1,90 @@
+import { describe, it, expect } from '@jest/globals';
+import { readFile } from '../../../src/services/fileService.js';
+import { splitSections, BrunoSection } from '../../../src/parsers/brunoTokenizer.js';
+import { join } from 'path';
+
+const PATHOLOGICAL_DIR = join(process.cwd(), 'tests/fixtures/bruno/pathological');
+
+async function readSections(fileName: string): Promise<BrunoSection[]> {
+  return splitSections(await readFile(join(PATHOLOGICAL_DIR, fileName)));
+}
+
+function findSection(sections: BrunoSection[], name: string): BrunoSection {
+  const section = sections.find((candidate) => candidate.name === name);
+  if (!section) {
+    throw new Error(`Missing section ${name}`);
+  }
+  return section;
+}
+
+describe('brunoTokenizer', () => {
+  describe('splitSections', () => {
+    it('should not close a block on braces inside JSON strings', async () => {
+      const sections = await readSections('braces-in-json-strings.bru');
+
+      expect(sections.map((section) => section.name)).toEqual([
+        'meta',
+        'post',
+        'body:json',
+        'script:pre-request',
+      ]);
+      const body = findSection(sections, 'body:json');
+      expect(JSON.parse(body.lines.join('\n')).nested.list).toEqual(['}', '{', ']']);
+      expect(body.line).toBe(13);
+    });
+
+    it('should not close a block on braces inside script regexes, strings and comments', async () => {
+      const sections = await readSections('braces-in-scripts.bru');
+
+      const script = findSection(sections, 'script:pre-request');
+      expect(script.lines).toHaveLength(8);
+      expect(script.lines[7]).toBe('  }');
+      expect(findSection(sections, 'tests').lines.join('\n')).toContain('to.not.include("}")');
+    });
+
+    it('should match closing braces of content that is not indented', async () => {
+      const sections = await readSections('unindented-content.bru');
+
+      const body = findSection(sections, 'body:json');
+      expect(JSON.parse(body.lines.join('\n'))).toEqual({ value: '}', object: { inner: true } });
+      expect(findSection(sections, 'docs').lines).toEqual(['Docs written without indentation.']);
+    });
+
+    it("should keep multiline ''' values together", async () => {
+      const sections = await readSections('multiline-values.bru');
+
+      const vars = findSection(sections, 'vars:pre-request');
+      expect(vars.lines).toHaveLength(7);
+      expect(vars.lines[4]).toBe('}');
+      expect(vars.lines[6]).toBe('  after: value');
+      expect(findSection(sections, 'docs').lines).toHaveLength(1);
+    });
+
+    it('should handle nested braces in GraphQL queries and variables', async () => {
+      const sections = await readSections('graphql-nested.bru');
+
+      expect(findSection(sections, 'body:graphql').lines).toHaveLength(6);
+      expect(findSection(sections, 'body:graphql:vars').lines).toHaveLength(3);
+    });
+
+    it('should handle CRLF line endings, comments and empty one-line blocks', async () => {
+      const sections = await readSections('crlf-and-empty-blocks.bru');
+
+      expect(sections.map((section) => section.name)).toEqual(['meta', 'get', 'headers', 'docs']);
+      expect(findSection(sections, 'headers').lines).toEqual(['  Accept: application/json']);
+      expect(findSection(sections, 'docs')).toMatchObject({ line: 18, lines: [] });
+    });
+
+    it('should parse list blocks', () => {
+      const sections = splitSections('vars:secret [\n  apiKey,\n  token\n]\n');
+
+      expect(sections).toEqual([
+        { name: 'vars:secret', line: 1, column: 1, lines: ['  apiKey,', '  token'] },
+      ]);
+    });
+
+    it('should reject mismatched inline closing delimiters', () => {
+      expect(() => splitSections('docs {]')).toThrow('Expected "}" to close the block');
+    });
+  });
+});
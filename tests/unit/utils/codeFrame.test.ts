@@ -0,0 +1,34 @@
+import { describe, it, expect } from '@jest/globals';
+import { buildCodeFrame } from '../../../src/utils/codeFrame.js';
+
+describe('codeFrame', () => {
+  describe('buildCodeFrame', () => {
+    const content = ['meta {', '  name: Test', '}', '', 'headers {', '  Accept', '}'].join('\n');
+
+    it('should mark the line and column with context lines around it', () => {
+      expect(buildCodeFrame(content, 6, 3)).toEqual([
+        '  4 |',
+        '  5 | headers {',
+        '> 6 |   Accept',
+        '    |   ^',
+        '  7 | }',
+      ]);
+    });
+
+    it('should clamp the context to the start of the file and pad line numbers', () => {
+      const longContent = Array.from({ length: 12 }, (_, index) => `line ${index + 1}`).join('\n');
+
+      expect(buildCodeFrame(content, 1, 1, 1)).toEqual([
+        '> 1 | meta {',
+        '    | ^',
+        '  2 |   name: Test',
+      ]);
+      expect(buildCodeFrame(longContent, 10, 1, 1)).toEqual([
+        '   9 | line 9',
+        '> 10 | line 10',
+        '     | ^',
+        '  11 | line 11',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from '@jest/globals';
+import { buildFileTree, sortFileTreeBySeq } from '../../../src/utils/fileTreeBuilder.js';
+import { FileTreeNode } from '../../../src/types/brunoCollection.types.js';
+import { BrunoRequest } from '../../../src/types/bruno.types.js';
+
+const request = (name: string, seq?: number): BrunoRequest => ({
+  meta: { name, type: 'http', seq },
+  method: 'GET',
+  url: `https://api.example.com/${name}`,
+  headers: [],
+  queryParams: [],
+  pathParams: [],
+});
+
+describe('fileTreeBuilder', () => {
+  describe('buildFileTree', () => {
+    it('should nest files under their directories', () => {
+      const tree = buildFileTree(
+        ['/collection/users/get-user.bru', '/collection/health.bru'],
+        '/collection'
+      );
+
+      expect(tree.children.map((child) => child.name)).toEqual(['health.bru', 'users']);
+      expect(tree.children[1].children[0].name).toBe('get-user.bru');
+    });
+  });
+
+  describe('sortFileTreeBySeq', () => {
+    it('should order requests by seq and fall back to name', () => {
+      const tree = buildFileTree(
+        ['/c/a-login.bru', '/c/b-logout.bru', '/c/c-refresh.bru', '/c/d-unsequenced.bru'],
+        '/c'
+      );
+      const [login, logout, refresh, unsequenced] = tree.children;
+      login.brunoRequest = request('login', 3);
+      logout.brunoRequest = request('logout', 1);
+      refresh.brunoRequest = request('refresh', 2);
+      unsequenced.brunoRequest = request('unsequenced');
+
+      sortFileTreeBySeq(tree);
+
+      expect(tree.children.map((child) => child.name)).toEqual([
+        'b-logout.bru',
+        'c-refresh.bru',
+        'a-login.bru',
+        'd-unsequenced.bru',
+      ]);
+    });
+
+    it('should put folders first, ordered by their folder.bru seq, recursively', () => {
+      const tree = buildFileTree(
+        ['/c/health.bru', '/c/orders/list.bru', '/c/orders/create.bru', '/c/users/list.bru'],
+        '/c'
+      );
+      const find = (node: FileTreeNode, name: string): FileTreeNode =>
+        node.children.find((child) => child.name === name)!;
+
+      find(tree, 'health.bru').brunoRequest = request('health', 1);
+      find(tree, 'orders').brunoFolder = { seq: 2 };
+      find(tree, 'users').brunoFolder = { seq: 1 };
+      find(find(tree, 'orders'), 'list.bru').brunoRequest = request('list', 1);
+      find(find(tree, 'orders'), 'create.bru').brunoRequest = request('create', 2);
+
+      sortFileTreeBySeq(tree);
+
+      expect(tree.children.map((child) => child.name)).toEqual(['users', 'orders', 'health.bru']);
+      expect(find(tree, 'orders').children.map((child) => child.name)).toEqual([
+        'list.bru',
+        'create.bru',
+      ]);
+    });
+  });
+});
@@ -7,6 +7,7 @@ import {
   getFileExtension,
   isValidDirectory,
   ensureDirectoryExists,
+  rebasePath,
 } from '../../../src/utils/pathUtils.js';
 
 describe('pathUtils', () => {
@@ -94,6 +95,21 @@ describe('pathUtils', () => {
     });
   });
 
+  describe('rebasePath', () => {
+    it('should rewrite a relative path against another directory', () => {
+      expect(rebasePath('assets/logo.png', '/work/collection', '/work/output')).toBe(
+        '../collection/assets/logo.png'
+      );
+      expect(rebasePath('logo.png', '/work/collection', '/work/collection')).toBe('logo.png');
+    });
+
+    it('should keep absolute paths unchanged', () => {
+      expect(rebasePath('/data/logo.png', '/work/collection', '/work/output')).toBe(
+        '/data/logo.png'
+      );
+    });
+  });
+
   describe('isValidDirectory', () => {
     it('should return true for existing directory', async () => {
       const result = await isValidDirectory(testDir);
@@ -0,0 +1,71 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  parseTagList,
+  isTagFilterActive,
+  matchesTagFilter,
+  filterFileTreeByTags,
+} from '../../../src/utils/tagFilter.js';
+import { buildFileTree } from '../../../src/utils/fileTreeBuilder.js';
+import { BrunoRequest } from '../../../src/types/bruno.types.js';
+
+const request = (name: string, tags: string[]): BrunoRequest => ({
+  meta: { name, type: 'http', tags },
+  method: 'GET',
+  url: `https://api.example.com/${name}`,
+  headers: [],
+  queryParams: [],
+  pathParams: [],
+});
+
+describe('tagFilter', () => {
+  describe('parseTagList', () => {
+    it('should split comma-separated tags', () => {
+      expect(parseTagList('smoke, billing,,')).toEqual(['smoke', 'billing']);
+      expect(parseTagList(undefined)).toEqual([]);
+    });
+  });
+
+  describe('isTagFilterActive', () => {
+    it('should be inactive without tags', () => {
+      expect(isTagFilterActive({ include: [], exclude: [] })).toBe(false);
+      expect(isTagFilterActive({ include: [], exclude: ['slow'] })).toBe(true);
+    });
+  });
+
+  describe('matchesTagFilter', () => {
+    it('should require one of the included tags', () => {
+      const filter = { include: ['smoke', 'billing'], exclude: [] };
+
+      expect(matchesTagFilter(['billing'], filter)).toBe(true);
+      expect(matchesTagFilter(['users'], filter)).toBe(false);
+      expect(matchesTagFilter([], filter)).toBe(false);
+    });
+
+    it('should reject any excluded tag, even when included', () => {
+      const filter = { include: ['smoke'], exclude: ['slow'] };
+
+      expect(matchesTagFilter(['smoke'], filter)).toBe(true);
+      expect(matchesTagFilter(['smoke', 'slow'], filter)).toBe(false);
+      expect(matchesTagFilter([], { include: [], exclude: ['slow'] })).toBe(true);
+    });
+  });
+
+  describe('filterFileTreeByTags', () => {
+    it('should remove unmatched requests and empty folders', () => {
+      const tree = buildFileTree(
+        ['/c/health.bru', '/c/billing/invoice.bru', '/c/users/get-user.bru'],
+        '/c'
+      );
+      const [billing, health, users] = tree.children;
+      billing.children[0].brunoRequest = request('invoice', ['smoke', 'billing']);
+      health.brunoRequest = request('health', ['smoke']);
+      users.children[0].brunoRequest = request('get-user', ['users']);
+
+      const kept = filterFileTreeByTags(tree, { include: ['smoke'], exclude: [] });
+
+      expect(kept).toBe(2);
+      expect(tree.children.map((child) => child.name)).toEqual(['billing', 'health.bru']);
+      expect(tree.children[0].children[0].name).toBe('invoice.bru');
+    });
+  });
+});
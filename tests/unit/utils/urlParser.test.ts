@@ -116,5 +116,18 @@ describe('urlParser', () => {
 
       expect(result.path).toEqual(['users']);
     });
+
+    it('should extract :name path parameters', () => {
+      const result = parseUrl('{{baseUrl}}/users/:userId/posts/:postId?sort=:asc#:top');
+
+      expect(result.path).toEqual(['users', ':userId', 'posts', ':postId']);
+      expect(result.pathVariables).toEqual(['userId', 'postId']);
+    });
+
+    it('should not treat ports as path parameters', () => {
+      const result = parseUrl('http://localhost:3000/api/users');
+
+      expect(result.pathVariables).toEqual([]);
+    });
   });
 });